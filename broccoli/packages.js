@@ -216,6 +216,20 @@ module.exports.simpleHTMLTokenizerES = function _simpleHTMLTokenizerES() {
   });
 };
 
+module.exports.simpleDOMSerializerES = function _simpleDOMSerializerES() {
+  let moduleInfo = findPackage('@simple-dom/serializer', 'simple-dom').module;
+  return new Rollup(moduleInfo.dir, {
+    annotation: '@simple-dom/serializer es',
+    rollup: {
+      input: moduleInfo.base,
+      output: {
+        file: '@simple-dom/serializer.js',
+        format: 'es',
+      },
+    },
+  });
+};
+
 const glimmerTrees = new Map();
 
 function rollupGlimmerPackage(pkg) {
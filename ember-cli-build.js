@@ -25,6 +25,7 @@ const {
   handlebarsES,
   rsvpES,
   simpleHTMLTokenizerES,
+  simpleDOMSerializerES,
   backburnerES,
   dagES,
   routeRecognizerES,
@@ -52,6 +53,7 @@ module.exports = function() {
     dagES(),
     routerES(),
     routeRecognizerES(),
+    simpleDOMSerializerES(),
 
     ...glimmerDependenciesES(),
   ]);
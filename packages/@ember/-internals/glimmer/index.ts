@@ -390,3 +390,5 @@ export { setComponentManager, getComponentManager } from './lib/utils/custom-com
 export { setModifierManager, getModifierManager } from './lib/utils/custom-modifier-manager';
 export { capabilities as modifierCapabilties } from './lib/modifiers/custom';
 export { isSerializationFirstNode } from './lib/utils/serialization-first-node-helpers';
+export { setupIslands } from './lib/islands';
+export { startRenderProfile, stopRenderProfile } from './lib/utils/render-profile';
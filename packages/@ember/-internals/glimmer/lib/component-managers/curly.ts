@@ -1,4 +1,5 @@
 import { privatize as P } from '@ember/-internals/container';
+import { tagFor } from '@ember/-internals/metal';
 import { getOwner } from '@ember/-internals/owner';
 import { guidFor } from '@ember/-internals/utils';
 import {
@@ -7,6 +8,7 @@ import {
   setElementView,
   setViewElement,
 } from '@ember/-internals/views';
+import { EMBER_GLIMMER_RENDER_PROFILER } from '@ember/canary-features';
 import { assert, debugFreeze } from '@ember/debug';
 import { _instrumentStart } from '@ember/instrumentation';
 import { assign } from '@ember/polyfills';
@@ -47,6 +49,7 @@ import {
 } from '../utils/bindings';
 import ComponentStateBucket, { Component } from '../utils/curly-component-state-bucket';
 import { processComponentArgs } from '../utils/process-args';
+import { profileRenderEnd, profileRenderStart } from '../utils/render-profile';
 import AbstractManager from './abstract';
 import DefinitionState from './definition-state';
 
@@ -61,6 +64,12 @@ function aliasIdToElementId(args: Arguments, props: any) {
   }
 }
 
+// The tag of the properties of a component, which are rendered by its own
+// template, and of its `rerender()`.
+function selfTagFor(component: Component): Tag {
+  return combine([component[DIRTY_TAG], tagFor(component)]);
+}
+
 function isTemplateFactory(template: OwnedTemplate | TemplateFactory): template is TemplateFactory {
   return typeof (template as TemplateFactory).create === 'function';
 }
@@ -245,6 +254,10 @@ export default class CurlyComponentManager
       this._pushToDebugStack(`component:${state.name}`, environment);
     }
 
+    if (EMBER_GLIMMER_RENDER_PROFILER) {
+      profileRenderStart(state.name, 'create');
+    }
+
     // Get the nearest concrete component instance from the scope. "Virtual"
     // components will be skipped.
     let parentView = dynamicScope.view;
@@ -318,7 +331,8 @@ export default class CurlyComponentManager
       component,
       capturedArgs,
       finalizer,
-      hasWrappedElement
+      hasWrappedElement,
+      state.name
     );
 
     if (args.named.has('class')) {
@@ -394,6 +408,11 @@ export default class CurlyComponentManager
     if (DEBUG) {
       this.debugStack.pop();
     }
+
+    if (EMBER_GLIMMER_RENDER_PROFILER) {
+      bucket.selfRevision = selfTagFor(bucket.component).value();
+      profileRenderEnd();
+    }
   }
 
   getTag({ args, component }: ComponentStateBucket): Tag {
@@ -415,6 +434,16 @@ export default class CurlyComponentManager
       this._pushToDebugStack(component._debugContainerKey, environment);
     }
 
+    if (EMBER_GLIMMER_RENDER_PROFILER) {
+      // Every component is updated on the way to the ones that changed, but
+      // only the ones whose arguments or own properties changed render again.
+      let isDirty =
+        (args !== null && !args.tag.validate(argsRevision)) ||
+        !selfTagFor(component).validate(bucket.selfRevision);
+
+      profileRenderStart(bucket.name, isDirty ? 'update' : 'revalidate');
+    }
+
     bucket.finalizer = _instrumentStart('render.component', rerenderInstrumentDetails, component);
 
     if (args && !args.tag.validate(argsRevision)) {
@@ -442,6 +471,11 @@ export default class CurlyComponentManager
     if (DEBUG) {
       this.debugStack.pop();
     }
+
+    if (EMBER_GLIMMER_RENDER_PROFILER) {
+      bucket.selfRevision = selfTagFor(bucket.component).value();
+      profileRenderEnd();
+    }
   }
 
   didUpdate({ component, environment }: ComponentStateBucket): void {
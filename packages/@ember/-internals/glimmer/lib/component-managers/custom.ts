@@ -2,7 +2,10 @@ import { consume } from '@ember/-internals/metal';
 import { Factory } from '@ember/-internals/owner';
 import { HAS_NATIVE_PROXY } from '@ember/-internals/utils';
 import { OwnedTemplateMeta } from '@ember/-internals/views';
-import { EMBER_CUSTOM_COMPONENT_ARG_PROXY } from '@ember/canary-features';
+import {
+  EMBER_CUSTOM_COMPONENT_ARG_PROXY,
+  EMBER_GLIMMER_RENDER_PROFILER,
+} from '@ember/canary-features';
 import { assert } from '@ember/debug';
 import { DEBUG } from '@glimmer/env';
 import {
@@ -12,7 +15,7 @@ import {
   Option,
   ProgramSymbolTable,
 } from '@glimmer/interfaces';
-import { PathReference, Tag } from '@glimmer/reference';
+import { PathReference, Revision, Tag } from '@glimmer/reference';
 import {
   Arguments,
   CapturedArguments,
@@ -26,6 +29,7 @@ import Environment from '../environment';
 import RuntimeResolver from '../resolver';
 import { OwnedTemplate } from '../template';
 import { RootReference } from '../utils/references';
+import { profileRenderEnd, profileRenderStart } from '../utils/render-profile';
 import AbstractComponentManager from './abstract';
 
 const CAPABILITIES = {
@@ -160,6 +164,11 @@ export default class CustomComponentManager<ComponentInstance>
     args: Arguments
   ): CustomComponentState<ComponentInstance> {
     const { delegate } = definition;
+
+    if (EMBER_GLIMMER_RENDER_PROFILER) {
+      profileRenderStart(definition.name, 'create');
+    }
+
     const capturedArgs = args.capture();
 
     let value;
@@ -214,12 +223,28 @@ export default class CustomComponentManager<ComponentInstance>
 
     const component = delegate.createComponent(definition.ComponentClass.class, value);
 
-    return new CustomComponentState(delegate, component, capturedArgs, namedArgsProxy);
+    return new CustomComponentState(
+      definition.name,
+      delegate,
+      component,
+      capturedArgs,
+      namedArgsProxy
+    );
   }
 
-  update({ delegate, component, args, namedArgsProxy }: CustomComponentState<ComponentInstance>) {
+  update(state: CustomComponentState<ComponentInstance>) {
+    let { name, delegate, component, args, namedArgsProxy } = state;
     let value;
 
+    if (EMBER_GLIMMER_RENDER_PROFILER) {
+      // Every component is updated on the way to the ones that changed, but
+      // only the ones whose arguments changed render again.
+      let isDirty = !args.tag.validate(state.argsRevision);
+
+      state.argsRevision = args.tag.value();
+      profileRenderStart(name, isDirty ? 'update' : 'revalidate');
+    }
+
     if (EMBER_CUSTOM_COMPONENT_ARG_PROXY) {
       value = {
         named: namedArgsProxy!,
@@ -272,7 +297,19 @@ export default class CustomComponentManager<ComponentInstance>
     return args.tag;
   }
 
-  didRenderLayout() {}
+  didRenderLayout() {
+    if (EMBER_GLIMMER_RENDER_PROFILER) {
+      profileRenderEnd();
+    }
+  }
+
+  didUpdateLayout({ delegate }: CustomComponentState<ComponentInstance>) {
+    // Without the `updateHook` capability, `update` is not called and there
+    // is nothing to end.
+    if (EMBER_GLIMMER_RENDER_PROFILER && delegate.capabilities.updateHook) {
+      profileRenderEnd();
+    }
+  }
 
   getLayout(state: DefinitionState<ComponentInstance>): Invocation {
     return {
@@ -287,12 +324,17 @@ const CUSTOM_COMPONENT_MANAGER = new CustomComponentManager();
  * Stores internal state about a component instance after it's been created.
  */
 export class CustomComponentState<ComponentInstance> {
+  public argsRevision: Revision;
+
   constructor(
+    public name: string,
     public delegate: ManagerDelegate<ComponentInstance>,
     public component: ComponentInstance,
     public args: CapturedArguments,
     public namedArgsProxy?: {}
-  ) {}
+  ) {
+    this.argsRevision = args.tag.value();
+  }
 
   destroy() {
     const { delegate, component } = this;
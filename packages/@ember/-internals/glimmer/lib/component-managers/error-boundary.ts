@@ -0,0 +1,363 @@
+import { getOnerror } from '@ember/-internals/error-handling';
+import { runInTransaction, setProperties } from '@ember/-internals/metal';
+import { Owner } from '@ember/-internals/owner';
+import { assert } from '@ember/debug';
+import { schedule } from '@ember/runloop';
+import { ComponentCapabilities, Option, Simple } from '@glimmer/interfaces';
+import { CONSTANT_TAG, VersionedPathReference } from '@glimmer/reference';
+import {
+  Arguments,
+  DynamicScope as GlimmerDynamicScope,
+  Environment as GlimmerEnvironment,
+  LowLevelVM,
+  UpdatingVM,
+  VM,
+} from '@glimmer/runtime';
+import { UpdatingOpcode } from '@glimmer/runtime/dist/types/lib/opcodes';
+import { Tracker } from '@glimmer/runtime/dist/types/lib/vm/element-builder';
+import { Destroyable, initializeGuid, Opaque } from '@glimmer/util';
+import Environment from '../environment';
+import { DynamicScope } from '../renderer';
+import { RootReference } from '../utils/references';
+import InternalComponentManager, { InternalDefinitionState } from './internal';
+
+const CAPABILITIES: ComponentCapabilities = {
+  dynamicLayout: false,
+  dynamicTag: false,
+  prepareArgs: false,
+  createArgs: true,
+  attributeHook: false,
+  elementHook: false,
+  createCaller: false,
+  dynamicScope: true,
+  updateHook: false,
+  createInstance: true,
+};
+
+interface ErrorBoundaryInstance extends Destroyable {
+  error: unknown;
+  hasError: boolean;
+  isReady: boolean;
+  isDestroying: boolean;
+}
+
+// The fields in which the block trackers of Glimmer keep the bounds of a block.
+interface TrackerFields {
+  first: Opaque;
+  last: Opaque;
+  nesting: number;
+}
+
+/*
+  The state of an `<ErrorBoundary>`.
+
+  Its block is only rendered once the root it is in has been rendered, when
+  the root is updated, so that an error thrown while it is rendered only stops
+  the update of the root. The block is then torn down, and the root is updated
+  again to render the fallback in its place.
+
+  The block is rendered between two comments, which are where it is torn down
+  from when the error leaves its DOM half rendered.
+*/
+export class ErrorBoundaryState {
+  public instance: ErrorBoundaryInstance;
+  private parent: Option<ErrorBoundaryState> = null;
+  private generation = 0;
+  private tracker: Option<Tracker> = null;
+  private start: Option<Simple.Node> = null;
+  private end: Option<Simple.Node> = null;
+  private nextSibling: Option<Simple.Node> = null;
+
+  constructor(
+    private env: Environment,
+    ComponentClass: any,
+    private onErrorRef: VersionedPathReference<Opaque>
+  ) {
+    this.instance = ComponentClass.create({
+      error: undefined,
+      hasError: false,
+      isReady: false,
+      reset: () => this.reset(),
+    });
+  }
+
+  didRenderRoot(): void {
+    if (!this.instance.isDestroying) {
+      setProperties(this.instance, { isReady: true });
+    }
+  }
+
+  willRenderBlock(vm: LowLevelVM<Opaque>): Simple.Node {
+    let elements = vm.elements();
+
+    this.tracker = elements.block();
+    this.nextSibling = elements.nextSibling;
+    this.start = this.env.getAppendOperations().createComment('');
+    this.end = null;
+
+    this.enter();
+    vm.updateWith(new EnterErrorBoundaryOpcode(this));
+
+    return this.start;
+  }
+
+  didRenderBlock(vm: LowLevelVM<Opaque>): Simple.Node {
+    this.end = this.env.getAppendOperations().createComment('');
+
+    this.exit();
+    vm.updateWith(new ExitErrorBoundaryOpcode(this));
+
+    return this.end;
+  }
+
+  enter(): void {
+    this.parent = this.env.errorBoundary;
+    this.env.errorBoundary = this;
+  }
+
+  exit(): void {
+    this.env.errorBoundary = this.parent;
+  }
+
+  /*
+    Tears down the DOM the block left behind when it threw while it was
+    rendered or updated, so that the fallback can be rendered in its place.
+  */
+  recover(error: unknown): void {
+    let tracker = this.tracker!;
+    let parent = tracker.parentElement();
+    let last = this.end === null ? this.nextSibling : this.end;
+    let node = this.start!.nextSibling;
+
+    while (node !== null && node !== last) {
+      let next = node.nextSibling;
+      parent.removeChild(node);
+      node = next;
+    }
+
+    if (this.end === null) {
+      // The block was not done being appended, so it can end in an element or
+      // a block that is still open. Only its first comment is left of it.
+      let fields = (tracker as unknown) as TrackerFields;
+      fields.last = fields.first;
+      fields.nesting = 0;
+    }
+
+    this.fail(error);
+  }
+
+  /*
+    Wraps the hooks a component or modifier manager has called once the render
+    is committed, such as `didInsertElement`, so that their errors are handed
+    to this boundary. The hooks of the block that has been torn down since are
+    not called anymore.
+  */
+  contain(manager: any): ContainedHooks {
+    return new ContainedHooks(this, this.generation, manager);
+  }
+
+  run(generation: number, hook: () => void): void {
+    if (generation !== this.generation || this.instance.isDestroying) {
+      return;
+    }
+
+    try {
+      hook();
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  private fail(error: unknown): void {
+    this.generation++;
+
+    setProperties(this.instance, { error, hasError: true });
+
+    schedule('actions', this, this.report, error);
+  }
+
+  private report(error: unknown): void {
+    let onError = this.onErrorRef.value();
+    if (typeof onError === 'function') {
+      onError(error);
+    }
+
+    let onerror = getOnerror();
+    if (onerror !== undefined) {
+      onerror(error);
+    }
+  }
+
+  private reset(): void {
+    if (!this.instance.isDestroying) {
+      setProperties(this.instance, { error: undefined, hasError: false });
+    }
+  }
+}
+
+class ContainedHooks {
+  constructor(
+    private errorBoundary: ErrorBoundaryState,
+    private generation: number,
+    private manager: any
+  ) {}
+
+  didCreate(component: Opaque): void {
+    this.errorBoundary.run(this.generation, () => this.manager.didCreate(component));
+  }
+
+  didUpdate(component: Opaque): void {
+    this.errorBoundary.run(this.generation, () => this.manager.didUpdate(component));
+  }
+
+  install(modifier: Opaque): void {
+    this.errorBoundary.run(this.generation, () => this.manager.install(modifier));
+  }
+
+  update(modifier: Opaque): void {
+    this.errorBoundary.run(this.generation, () => this.manager.update(modifier));
+  }
+}
+
+/*
+  Makes the boundary the one the errors are handed to while its block is
+  updated, as the boundary helpers do when it is appended.
+*/
+class EnterErrorBoundaryOpcode implements UpdatingOpcode {
+  public type = 'enter-error-boundary';
+  public tag = CONSTANT_TAG;
+  public next: Option<UpdatingOpcode> = null;
+  public prev: Option<UpdatingOpcode> = null;
+  public _guid!: number;
+
+  constructor(private errorBoundary: ErrorBoundaryState) {
+    initializeGuid(this);
+  }
+
+  evaluate(_vm: UpdatingVM): void {
+    this.errorBoundary.enter();
+  }
+}
+
+class ExitErrorBoundaryOpcode implements UpdatingOpcode {
+  public type = 'exit-error-boundary';
+  public tag = CONSTANT_TAG;
+  public next: Option<UpdatingOpcode> = null;
+  public prev: Option<UpdatingOpcode> = null;
+  public _guid!: number;
+
+  constructor(private errorBoundary: ErrorBoundaryState) {
+    initializeGuid(this);
+  }
+
+  evaluate(_vm: UpdatingVM): void {
+    this.errorBoundary.exit();
+  }
+}
+
+export function errorBoundaryStartHelper(vm: VM, _args: Arguments) {
+  let { errorBoundary } = vm.dynamicScope() as DynamicScope;
+  return new RootReference(errorBoundary!.willRenderBlock(vm as LowLevelVM<Opaque>));
+}
+
+export function errorBoundaryEndHelper(vm: VM, _args: Arguments) {
+  let { errorBoundary } = vm.dynamicScope() as DynamicScope;
+  return new RootReference(errorBoundary!.didRenderBlock(vm as LowLevelVM<Opaque>));
+}
+
+/*
+  Wraps the hooks of a component or modifier manager in the error boundary
+  that is being rendered, if there is one.
+*/
+export function containHooks(env: Environment, manager: any): any {
+  let { errorBoundary } = env;
+  return errorBoundary === null ? manager : errorBoundary.contain(manager);
+}
+
+/*
+  Renders a root, then updates it again for as long as error boundaries have
+  been created in it, which renders their blocks, or an error has been thrown
+  in the block of one, which renders its fallback. The errors thrown outside
+  of error boundaries are rethrown.
+*/
+export function renderContained(root: { render(): void }, env: Environment): boolean {
+  let shouldReflush = false;
+  let isStale: boolean;
+
+  do {
+    isStale = false;
+
+    try {
+      shouldReflush = runInTransaction(root, 'render') || shouldReflush;
+    } catch (error) {
+      let { errorBoundary } = env;
+
+      if (errorBoundary === null) {
+        throw error;
+      }
+
+      errorBoundary.recover(error);
+      isStale = true;
+    } finally {
+      env.errorBoundary = null;
+    }
+
+    let { createdErrorBoundaries } = env;
+
+    if (createdErrorBoundaries.length > 0) {
+      env.createdErrorBoundaries = [];
+
+      for (let i = 0; i < createdErrorBoundaries.length; i++) {
+        createdErrorBoundaries[i].didRenderRoot();
+      }
+
+      isStale = true;
+    }
+  } while (isStale);
+
+  return shouldReflush;
+}
+
+export default class ErrorBoundaryComponentManager extends InternalComponentManager<
+  ErrorBoundaryState
+> {
+  getCapabilities(): ComponentCapabilities {
+    return CAPABILITIES;
+  }
+
+  create(
+    env: GlimmerEnvironment,
+    { ComponentClass }: InternalDefinitionState,
+    args: Arguments,
+    dynamicScope: GlimmerDynamicScope
+  ): ErrorBoundaryState {
+    assert(
+      'The `<ErrorBoundary />` component does not take any positional arguments',
+      args.positional.length === 0
+    );
+
+    let environment = env as Environment;
+    let state = new ErrorBoundaryState(environment, ComponentClass, args.named.get('onError'));
+
+    (dynamicScope as DynamicScope).errorBoundary = state;
+    environment.createdErrorBoundaries.push(state);
+
+    return state;
+  }
+
+  getSelf({ instance }: ErrorBoundaryState): VersionedPathReference {
+    return new RootReference(instance);
+  }
+
+  getTag() {
+    return CONSTANT_TAG;
+  }
+
+  getDestructor({ instance }: ErrorBoundaryState): Destroyable {
+    return instance;
+  }
+}
+
+export const ErrorBoundaryComponentManagerFactory = (owner: Owner) => {
+  return new ErrorBoundaryComponentManager(owner);
+};
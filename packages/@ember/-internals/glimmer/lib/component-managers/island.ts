@@ -0,0 +1,360 @@
+import { privatize as P } from '@ember/-internals/container';
+import { setProperties } from '@ember/-internals/metal';
+import { Owner } from '@ember/-internals/owner';
+import { lookupComponent } from '@ember/-internals/views';
+import { assert } from '@ember/debug';
+import { assign } from '@ember/polyfills';
+import { ComponentCapabilities, Dict, Option, Simple } from '@glimmer/interfaces';
+import { combine, map, Tag, VersionedPathReference } from '@glimmer/reference';
+import {
+  Arguments,
+  CapturedArguments,
+  CapturedNamedArguments,
+  ComponentDefinition,
+  CurriedComponentDefinition,
+  curry,
+  DynamicScope,
+  ElementOperations,
+  EMPTY_ARGS,
+  Environment,
+  Invocation,
+  PrimitiveReference,
+  UNDEFINED_REFERENCE,
+  VM,
+  WithDynamicTagName,
+} from '@glimmer/runtime';
+import { Arguments as VMArguments } from '@glimmer/runtime/dist/types/lib/vm/arguments';
+import { Destroyable, dict, Opaque } from '@glimmer/util';
+import { Component } from '../utils/curly-component-state-bucket';
+import { RootReference } from '../utils/references';
+import { BootEnvironment } from '../views/outlet';
+import InternalComponentManager, { InternalDefinitionState } from './internal';
+
+const CAPABILITIES: ComponentCapabilities = {
+  dynamicLayout: false,
+  dynamicTag: true,
+  prepareArgs: false,
+  createArgs: true,
+  attributeHook: false,
+  elementHook: true,
+  createCaller: false,
+  dynamicScope: false,
+  updateHook: true,
+  createInstance: true,
+};
+
+export type IslandLoad = 'visible' | 'interaction';
+
+/*
+  Whether a value is plain JSON data, which the arguments of an island have to
+  be as they are saved on its element.
+*/
+function isJSONData(value: Opaque): boolean {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return true;
+  }
+
+  if (typeof value === 'number') {
+    return isFinite(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.every(isJSONData);
+  }
+
+  if (typeof value === 'object') {
+    let proto = Object.getPrototypeOf(value);
+    let object = value as Dict<Opaque>;
+
+    return (
+      (proto === Object.prototype || proto === null) &&
+      Object.keys(object).every(key => object[key] === undefined || isJSONData(object[key]))
+    );
+  }
+
+  return false;
+}
+
+/*
+  Creates the component of an island and renders it into the element of the
+  island, as a root of its own so that it can be rehydrated without the rest
+  of the page. The arguments of the island are set as its properties.
+*/
+export function renderIsland(
+  owner: Owner,
+  name: string,
+  args: Opaque,
+  element: Simple.Element | Element
+): Component {
+  let { component, layout } = lookupComponent(owner, name);
+
+  assert(
+    `Could not find component named "${name}" (no component or template with that name was found)`,
+    component !== undefined || layout !== undefined
+  );
+
+  let props: Dict<Opaque> = assign({}, args);
+
+  if (layout !== undefined) {
+    props.layout = layout;
+  }
+
+  let factory = component || owner.factoryFor<Component, any>(P`component:-default`)!;
+  let instance = factory.create(props);
+
+  // Unlike `appendTo`, this allows the island to be inside of another view.
+  instance.renderer.appendTo(instance, element as Simple.Element);
+
+  return instance;
+}
+
+/*
+  The arguments of the component of an island, which are the properties of
+  its `@args`.
+*/
+class IslandNamedArguments implements CapturedNamedArguments {
+  public length: number;
+
+  constructor(
+    public tag: Tag,
+    public names: string[],
+    public references: VersionedPathReference<Opaque>[]
+  ) {
+    this.length = names.length;
+  }
+
+  get map(): Dict<VersionedPathReference<Opaque>> {
+    let map = dict<VersionedPathReference<Opaque>>();
+
+    for (let i = 0; i < this.names.length; i++) {
+      map[this.names[i]] = this.references[i];
+    }
+
+    return map;
+  }
+
+  has(name: string): boolean {
+    return this.names.indexOf(name) !== -1;
+  }
+
+  get<T extends VersionedPathReference<Opaque>>(name: string): T {
+    let index = this.names.indexOf(name);
+    return (index === -1 ? UNDEFINED_REFERENCE : this.references[index]) as T;
+  }
+
+  value(): Dict<Opaque> {
+    let value = dict<Opaque>();
+
+    for (let i = 0; i < this.names.length; i++) {
+      value[this.names[i]] = this.references[i].value();
+    }
+
+    return value;
+  }
+}
+
+/*
+  The component of an island rendered in the browser, curried with the
+  properties of `@args` as its arguments. It is curried again only when the
+  component or the names of its arguments change.
+*/
+class IslandComponentReference
+  implements VersionedPathReference<Option<CurriedComponentDefinition>> {
+  public tag: Tag;
+  private lastDefinition: Opaque = null;
+  private lastNames: Option<string[]> = null;
+  private lastValue: Option<CurriedComponentDefinition> = null;
+
+  constructor(
+    private definitionRef: VersionedPathReference<Opaque>,
+    private argsRef: VersionedPathReference<Opaque>
+  ) {
+    this.tag = combine([definitionRef.tag, argsRef.tag]);
+  }
+
+  value(): Option<CurriedComponentDefinition> {
+    let { argsRef, lastNames } = this;
+    let definition = this.definitionRef.value();
+    let names = Object.keys(argsRef.value() || {});
+
+    if (
+      definition === this.lastDefinition &&
+      lastNames !== null &&
+      names.join('\0') === lastNames.join('\0')
+    ) {
+      return this.lastValue;
+    }
+
+    this.lastDefinition = definition;
+    this.lastNames = names;
+
+    if (definition === null || definition === undefined) {
+      return (this.lastValue = null);
+    }
+
+    let named = new IslandNamedArguments(argsRef.tag, names, names.map(name => argsRef.get(name)));
+    let args: CapturedArguments = {
+      tag: argsRef.tag,
+      length: named.length,
+      positional: EMPTY_ARGS.positional,
+      named,
+      value: () => ({ named: named.value(), positional: [] }),
+    };
+
+    return (this.lastValue = curry((definition as unknown) as ComponentDefinition, args));
+  }
+
+  get(): VersionedPathReference<Opaque> {
+    return UNDEFINED_REFERENCE;
+  }
+}
+
+export function islandComponentHelper(_vm: VM, args: Arguments) {
+  return new IslandComponentReference(args.positional.at(0), args.positional.at(1));
+}
+
+class IslandState implements Destroyable {
+  public component: Option<Component> = null;
+  public name: string;
+  public load: IslandLoad;
+  public lastArgs: Opaque;
+
+  constructor(
+    public instance: Destroyable,
+    public args: CapturedNamedArguments,
+    public isSerialized: boolean
+  ) {
+    this.name = args.get('component').value() as string;
+    this.load = (args.get('load').value() as IslandLoad | undefined) || 'visible';
+    this.lastArgs = this.argsValue();
+  }
+
+  argsValue(): Opaque {
+    let value = this.args.has('args') ? this.args.get('args').value() : undefined;
+
+    assert(
+      `The \`@args\` of the \`<Island />\` of "${this.name}" have to be plain JSON data, as they are saved on its element`,
+      value === undefined || isJSONData(value)
+    );
+
+    return value || {};
+  }
+
+  destroy() {
+    if (this.component !== null) {
+      this.component.destroy();
+    }
+
+    this.instance.destroy();
+  }
+}
+
+export default class IslandComponentManager extends InternalComponentManager<IslandState>
+  implements WithDynamicTagName<IslandState> {
+  getCapabilities(): ComponentCapabilities {
+    return CAPABILITIES;
+  }
+
+  getLayout({ layout: _layout }: InternalDefinitionState): Invocation {
+    let layout = _layout.asWrappedLayout();
+
+    return {
+      handle: layout.compile(),
+      symbolTable: layout.symbolTable,
+    };
+  }
+
+  create(
+    _env: Environment,
+    { ComponentClass }: InternalDefinitionState,
+    args: Arguments,
+    _dynamicScope: DynamicScope
+  ): IslandState {
+    assert(
+      'The `<Island />` component does not take any positional arguments',
+      args.positional.length === 0
+    );
+
+    let { _renderMode } = this.owner.lookup<BootEnvironment>('-environment:main')!;
+    let isSerialized = _renderMode === 'serialize';
+
+    // Only the islands rendered on the server are rendered as roots of their
+    // own, as they are rehydrated without the rest of the page. In the browser
+    // the component is rendered by the template of the island.
+    let state = new IslandState(
+      ComponentClass.create({ isInline: !isSerialized }),
+      args.named.capture(),
+      isSerialized
+    );
+
+    assert(
+      'The `<Island />` component requires the name of a component as its `@component` argument',
+      typeof state.name === 'string'
+    );
+    assert(
+      `The \`@load\` argument of \`<Island />\` has to be 'visible' or 'interaction', not '${state.load}'`,
+      state.load === 'visible' || state.load === 'interaction'
+    );
+    assert(
+      'The `<Island />` component cannot have a block when it is rendered on the server, as it is rehydrated on its own',
+      !isSerialized || !(args as VMArguments).blocks.has('default')
+    );
+
+    return state;
+  }
+
+  getTagName(_state: IslandState) {
+    return 'div';
+  }
+
+  didCreateElement(state: IslandState, element: Simple.Element, operations: ElementOperations) {
+    let { name, load, args, isSerialized } = state;
+
+    if (!isSerialized) {
+      return;
+    }
+
+    operations.setAttribute('data-ember-island', PrimitiveReference.create(name), false, null);
+    operations.setAttribute('data-ember-island-load', PrimitiveReference.create(load), false, null);
+    operations.setAttribute(
+      'data-ember-island-args',
+      map(args.get('args'), value => JSON.stringify(value || {})),
+      false,
+      null
+    );
+
+    state.component = renderIsland(this.owner, name, state.lastArgs, element);
+  }
+
+  getSelf({ instance }: IslandState): VersionedPathReference {
+    return new RootReference(instance);
+  }
+
+  getTag({ args }: IslandState): Tag {
+    return args.tag;
+  }
+
+  update(state: IslandState): void {
+    assert(
+      'The `@component` of an `<Island />` cannot change',
+      state.args.get('component').value() === state.name
+    );
+
+    let args = state.argsValue();
+
+    if (!state.isSerialized || args === state.lastArgs) {
+      return;
+    }
+
+    state.lastArgs = args;
+    setProperties(state.component!, args as object);
+  }
+
+  getDestructor(state: IslandState): Destroyable {
+    return state;
+  }
+}
+
+export const IslandComponentManagerFactory = (owner: Owner) => {
+  return new IslandComponentManager(owner);
+};
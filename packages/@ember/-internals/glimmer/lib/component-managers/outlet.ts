@@ -1,6 +1,7 @@
 import { ENV } from '@ember/-internals/environment';
 import { guidFor } from '@ember/-internals/utils';
 import { OwnedTemplateMeta } from '@ember/-internals/views';
+import { EMBER_GLIMMER_STREAMING } from '@ember/canary-features';
 import { _instrumentStart } from '@ember/instrumentation';
 import { assign } from '@ember/polyfills';
 import { DEBUG } from '@glimmer/env';
@@ -8,15 +9,17 @@ import { ComponentCapabilities, Option, Simple } from '@glimmer/interfaces';
 import { CONSTANT_TAG, Tag, VersionedPathReference } from '@glimmer/reference';
 import {
   Arguments,
+  Bounds,
   ComponentDefinition,
   ElementOperations,
-  Environment,
   Invocation,
   UNDEFINED_REFERENCE,
   WithDynamicTagName,
   WithStaticLayout,
 } from '@glimmer/runtime';
 import { Destroyable } from '@glimmer/util';
+import Environment from '../environment';
+import OutletStream, { StreamedOutlet } from '../outlet-stream';
 import { DynamicScope } from '../renderer';
 import RuntimeResolver from '../resolver';
 import { OwnedTemplate } from '../template';
@@ -32,6 +35,8 @@ function instrumentationPayload(def: OutletDefinitionState) {
 interface OutletInstanceState {
   self: VersionedPathReference<any | undefined>;
   finalize: () => void;
+  stream: Option<OutletStream>;
+  streamed: Option<StreamedOutlet>;
 }
 
 export interface OutletDefinitionState {
@@ -72,14 +77,33 @@ class OutletComponentManager extends AbstractManager<OutletInstanceState, Outlet
     if (DEBUG) {
       this._pushToDebugStack(`template:${definition.template.referrer.moduleName}`, environment);
     }
+    let parentState = dynamicScope.outletState.value();
     dynamicScope.outletState = definition.ref;
 
     let controller = definition.controller;
     let self = controller === undefined ? UNDEFINED_REFERENCE : new RootReference(controller);
-    return {
+    let state: OutletInstanceState = {
       self,
       finalize: _instrumentStart('render.outlet', instrumentationPayload, definition),
+      stream: null,
+      streamed: null,
     };
+
+    if (EMBER_GLIMMER_STREAMING) {
+      let { outletStream } = environment;
+
+      if (outletStream !== null) {
+        state.stream = outletStream;
+        state.streamed = {
+          ref: definition.ref,
+          name: definition.name,
+          isRoot: parentState === undefined,
+          bounds: null,
+        };
+      }
+    }
+
+    return state;
   }
 
   getLayout({ template }: OutletDefinitionState, _resolver: RuntimeResolver): Invocation {
@@ -104,15 +128,28 @@ class OutletComponentManager extends AbstractManager<OutletInstanceState, Outlet
     return CONSTANT_TAG;
   }
 
-  didRenderLayout(state: OutletInstanceState) {
+  didRenderLayout(state: OutletInstanceState, bounds: Bounds) {
     state.finalize();
 
+    if (EMBER_GLIMMER_STREAMING && state.stream !== null) {
+      state.streamed!.bounds = bounds;
+      state.stream.didRenderOutlet(state.streamed!);
+    }
+
     if (DEBUG) {
       this.debugStack.pop();
     }
   }
 
-  getDestructor(): Option<Destroyable> {
+  getDestructor({ stream, streamed }: OutletInstanceState): Option<Destroyable> {
+    if (EMBER_GLIMMER_STREAMING && stream !== null) {
+      return {
+        destroy() {
+          stream.didDestroyOutlet(streamed!);
+        },
+      };
+    }
+
     return null;
   }
 }
@@ -1,5 +1,6 @@
 import { FACTORY_FOR } from '@ember/-internals/container';
 import { Factory } from '@ember/-internals/owner';
+import { EMBER_GLIMMER_RENDER_PROFILER } from '@ember/canary-features';
 import { _instrumentStart } from '@ember/instrumentation';
 import { DEBUG } from '@glimmer/env';
 import { ComponentCapabilities } from '@glimmer/interfaces';
@@ -9,6 +10,7 @@ import Environment from '../environment';
 import { DynamicScope } from '../renderer';
 import RuntimeResolver from '../resolver';
 import ComponentStateBucket, { Component } from '../utils/curly-component-state-bucket';
+import { profileRenderStart } from '../utils/render-profile';
 import CurlyComponentManager, {
   initialRenderInstrumentDetails,
   processComponentInitializationAssertions,
@@ -39,11 +41,17 @@ class RootComponentManager extends CurlyComponentManager {
     dynamicScope: DynamicScope
   ) {
     let component = this.component;
+    let containerKey: string | false = (component as any)._debugContainerKey;
+    let name = containerKey ? containerKey.slice(containerKey.indexOf(':') + 1) : '-root';
 
     if (DEBUG) {
       this._pushToDebugStack((component as any)._debugContainerKey, environment);
     }
 
+    if (EMBER_GLIMMER_RENDER_PROFILER) {
+      profileRenderStart(name, 'create');
+    }
+
     let finalizer = _instrumentStart('render.component', initialRenderInstrumentDetails, component);
 
     dynamicScope.view = component;
@@ -67,7 +75,14 @@ class RootComponentManager extends CurlyComponentManager {
       processComponentInitializationAssertions(component, {});
     }
 
-    return new ComponentStateBucket(environment, component, null, finalizer, hasWrappedElement);
+    return new ComponentStateBucket(
+      environment,
+      component,
+      null,
+      finalizer,
+      hasWrappedElement,
+      name
+    );
   }
 }
 
@@ -1024,6 +1024,35 @@ const Component = CoreView.extend(
       @private
     */
 
+    /**
+      The priority the component is revalidated with, when it is rendered as
+      a root of its own, such as with `appendTo`. It is read once, when the
+      component is appended.
+
+      * `user-blocking` roots are revalidated first, at the end of the run
+        loop. They are still revalidated along with the `normal` roots, so
+        this only changes the order they are updated in.
+      * `normal` roots are revalidated at the end of the run loop, like the
+        application.
+      * `idle` roots are revalidated in the idle periods of the frames that
+        follow, for as long as there is time left in them. This keeps them
+        from delaying the rest of the page.
+
+      The priority is only read from roots: the components rendered by the
+      templates of the application are revalidated with it, as `normal`. To
+      keep a part of the application, such as a big table, from delaying the
+      rest of it, append a component rendering it with the `idle` priority,
+      for instance from `didInsertElement`.
+
+      `renderSettled()` resolves once the `idle` roots are rendered too.
+
+      @property renderPriority
+      @type String
+      @default 'normal'
+      @category EMBER_GLIMMER_RENDER_PRIORITIES
+      @public
+    */
+
     /**
       Returns a jQuery object for this component's element. If you pass in a selector
       string, this method will return a jQuery object, using the current element
@@ -0,0 +1,63 @@
+/**
+@module @ember/component
+*/
+import { Object as EmberObject } from '@ember/-internals/runtime';
+import { EMBER_GLIMMER_ERROR_BOUNDARY } from '@ember/canary-features';
+import { ErrorBoundaryComponentManagerFactory } from '../component-managers/error-boundary';
+import { setManager } from '../utils/managers';
+
+let ErrorBoundary: any;
+
+if (EMBER_GLIMMER_ERROR_BOUNDARY) {
+  /**
+    The `ErrorBoundary` component keeps the errors thrown while its block is
+    rendered from breaking the rest of the page. The errors thrown by any of
+    the helpers, modifiers and components in the block are caught, whether
+    they are thrown when the block is first rendered, when it is updated, or
+    by hooks such as `didInsertElement`.
+
+    When an error is caught, the block is torn down and the error is yielded
+    as the block param, so that a fallback can be rendered instead. The second
+    block param is an action that renders the block again:
+
+    ```handlebars
+    <ErrorBoundary @onError={{this.reportError}} as |error reset|>
+      {{#if error}}
+        The weather is not available right now.
+        <button {{action reset}}>Try again</button>
+      {{else}}
+        <WeatherWidget @city={{this.city}} />
+      {{/if}}
+    </ErrorBoundary>
+    ```
+
+    When the block has no block params, nothing is rendered in its place.
+
+    The error is passed to the `@onError` argument and to `Ember.onerror`. The
+    errors thrown while the fallback is rendered are left to the error
+    boundary around this one, if there is one.
+
+    The block is rendered right after the rest of the template the boundary
+    is in, in the same render.
+
+    @method ErrorBoundary
+    @for Ember.Templates.components
+    @param {Hash} options
+    @category EMBER_GLIMMER_ERROR_BOUNDARY
+    @public
+  */
+  ErrorBoundary = EmberObject.extend();
+
+  setManager(
+    {
+      factory: ErrorBoundaryComponentManagerFactory,
+      internal: true,
+      type: 'component',
+    },
+    ErrorBoundary
+  );
+
+  ErrorBoundary.toString = () => '@ember/component/error-boundary';
+}
+
+export default ErrorBoundary;
@@ -0,0 +1,66 @@
+/**
+@module @ember/component
+*/
+import { Object as EmberObject } from '@ember/-internals/runtime';
+import { EMBER_GLIMMER_ISLANDS } from '@ember/canary-features';
+import { IslandComponentManagerFactory } from '../component-managers/island';
+import { setManager } from '../utils/managers';
+
+let Island: any;
+
+if (EMBER_GLIMMER_ISLANDS) {
+  /**
+    The `Island` component renders the component named by its `@component`
+    argument as an island: a part of the page that can be rehydrated on its
+    own when the application is rendered on the server.
+
+    ```handlebars
+    <Island
+      @component="weather-widget"
+      @load="visible"
+      @args={{hash city=this.city}}
+    />
+    ```
+
+    The island is rendered as a `div`, with the component inside of it. The
+    values of `@args` are passed to the component as its arguments, and the
+    block of the island, if any, as its block. As they are saved on the `div`
+    as JSON when the island is rendered on the server, the values of `@args`
+    have to be plain data.
+
+    When an application rendered with the `'serialize'` render mode is visited
+    again in the `'islands'` render mode, the markup of the page is left as it
+    is, and only the components of its islands are rehydrated. The `@load`
+    argument sets when this happens:
+
+    * `visible` (the default) rehydrates the component once the island is
+      scrolled into view.
+    * `interaction` rehydrates the component as soon as the island is
+      clicked, focused or typed into. The event is then handled by the
+      rehydrated component.
+
+    The islands inside of an island are rendered along with it. An island
+    rendered on the server is rendered without the template around it, so it
+    cannot have a block.
+
+    @method Island
+    @for Ember.Templates.components
+    @param {Hash} options
+    @category EMBER_GLIMMER_ISLANDS
+    @public
+  */
+  Island = EmberObject.extend();
+
+  setManager(
+    {
+      factory: IslandComponentManagerFactory,
+      internal: true,
+      type: 'component',
+    },
+    Island
+  );
+
+  Island.toString = () => '@ember/component/island';
+}
+
+export default Island;
@@ -4,10 +4,14 @@
 
 import { alias, computed, get } from '@ember/-internals/metal';
 import { isSimpleClick } from '@ember/-internals/views';
-import { EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS } from '@ember/canary-features';
+import {
+  EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS,
+  EMBER_ROUTING_PREFETCH,
+} from '@ember/canary-features';
 import { assert, warn } from '@ember/debug';
 import { flaggedInstrument } from '@ember/instrumentation';
 import { assign } from '@ember/polyfills';
+import { join } from '@ember/runloop';
 import { inject as injectService } from '@ember/service';
 import { DEBUG } from '@glimmer/env';
 import EmberComponent, { HAS_BLOCK } from '../component';
@@ -912,6 +916,99 @@ if (EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS) {
   LinkComponent.reopenClass({
     positionalParams: 'params',
   });
+
+  if (EMBER_ROUTING_PREFETCH) {
+    LinkComponent.reopen({
+      /**
+        Loads the data of the linked route ahead of time by running the
+        `prefetch` hooks of the routes it would enter:
+
+        * `"hover"` prefetches when the pointer enters the link, or when it is
+          focused.
+        * `"visible"` prefetches when the link is scrolled into view.
+        * `"eager"` prefetches as soon as the link is rendered.
+
+        ```handlebars
+        <LinkTo @route='post' @model={{this.post.id}} @prefetch='hover'>
+          {{this.post.title}}
+        </LinkTo>
+        ```
+
+        @property prefetch
+        @type String
+        @default null
+        @category EMBER_ROUTING_PREFETCH
+        @public
+      */
+      prefetch: null,
+
+      init() {
+        this._super(...arguments);
+
+        this.on('mouseEnter', this, this._prefetchOnHover);
+        this.on('focusIn', this, this._prefetchOnHover);
+      },
+
+      didInsertElement() {
+        this._super(...arguments);
+
+        let { prefetch } = this;
+
+        if (prefetch === 'eager') {
+          this._prefetch();
+        } else if (prefetch === 'visible') {
+          this._observeVisibility();
+        }
+      },
+
+      willDestroyElement() {
+        this._super(...arguments);
+
+        this._stopObservingVisibility();
+      },
+
+      _prefetchOnHover(this: any) {
+        if (this.prefetch === 'hover') {
+          this._prefetch();
+        }
+      },
+
+      _observeVisibility(this: any) {
+        // Without IntersectionObserver every link is considered visible.
+        if (typeof IntersectionObserver !== 'function') {
+          this._prefetch();
+          return;
+        }
+
+        let observer = new IntersectionObserver(entries => {
+          if (entries.some(entry => entry.isIntersecting)) {
+            this._stopObservingVisibility();
+            join(this, this._prefetch);
+          }
+        });
+
+        observer.observe(this.element);
+        this._visibilityObserver = observer;
+      },
+
+      _stopObservingVisibility(this: any) {
+        if (this._visibilityObserver) {
+          this._visibilityObserver.disconnect();
+          this._visibilityObserver = null;
+        }
+      },
+
+      _prefetch(this: any) {
+        if (this._isDisabled || this.loading) {
+          return;
+        }
+
+        let { _route: routeName, _models: models, _query: query, _routing: routing } = this;
+
+        routing.prefetch(routeName, models, query);
+      },
+    });
+  }
 } else {
   /**
     The `{{link-to}}` component renders a link to the supplied
@@ -1,5 +1,6 @@
 import { OWNER, Owner } from '@ember/-internals/owner';
 import { constructStyleDeprecationMessage, lookupComponent } from '@ember/-internals/views';
+import { EMBER_GLIMMER_ERROR_BOUNDARY, EMBER_GLIMMER_STREAMING } from '@ember/canary-features';
 import { warn } from '@ember/debug';
 import { DEBUG } from '@glimmer/env';
 import { Option, Simple } from '@glimmer/interfaces';
@@ -10,6 +11,8 @@ import {
   SimpleDynamicAttribute,
 } from '@glimmer/runtime';
 import { Destroyable, Opaque } from '@glimmer/util';
+import { containHooks, ErrorBoundaryState } from './component-managers/error-boundary';
+import OutletStream from './outlet-stream';
 import DebugStack from './utils/debug-stack';
 import createIterable from './utils/iterable';
 import { ConditionalReference, UpdatableReference } from './utils/references';
@@ -32,14 +35,25 @@ export default class Environment extends GlimmerEnvironment {
   public owner: Owner;
   public isInteractive: boolean;
   public destroyedComponents: Destroyable[];
+  public outletStream: Option<OutletStream> = null;
 
   public debugStack: typeof DebugStack;
   public inTransaction = false;
 
+  // The error boundary whose block is being rendered, and the error boundaries
+  // that render their block once the root they are in has been rendered.
+  public errorBoundary: Option<ErrorBoundaryState> = null;
+  public createdErrorBoundaries: ErrorBoundaryState[] = [];
+
   constructor(injections: any) {
     super(injections);
     this.owner = injections[OWNER];
-    this.isInteractive = this.owner.lookup<any>('-environment:main').isInteractive;
+    let bootEnvironment = this.owner.lookup<any>('-environment:main');
+    this.isInteractive = bootEnvironment.isInteractive;
+
+    if (EMBER_GLIMMER_STREAMING && bootEnvironment._renderMode === 'stream') {
+      this.outletStream = this.owner.lookup<OutletStream>('service:-outlet-stream')!;
+    }
 
     // can be removed once https://github.com/tildeio/glimmer/pull/305 lands
     this.destroyedComponents = [];
@@ -69,15 +83,35 @@ export default class Environment extends GlimmerEnvironment {
     return createIterable(ref, key);
   }
 
+  didCreate(component: any, manager: any): void {
+    super.didCreate(
+      component,
+      EMBER_GLIMMER_ERROR_BOUNDARY ? containHooks(this, manager) : manager
+    );
+  }
+
+  didUpdate(component: any, manager: any): void {
+    super.didUpdate(
+      component,
+      EMBER_GLIMMER_ERROR_BOUNDARY ? containHooks(this, manager) : manager
+    );
+  }
+
   scheduleInstallModifier(modifier: any, manager: any): void {
     if (this.isInteractive) {
-      super.scheduleInstallModifier(modifier, manager);
+      super.scheduleInstallModifier(
+        modifier,
+        EMBER_GLIMMER_ERROR_BOUNDARY ? containHooks(this, manager) : manager
+      );
     }
   }
 
   scheduleUpdateModifier(modifier: any, manager: any): void {
     if (this.isInteractive) {
-      super.scheduleUpdateModifier(modifier, manager);
+      super.scheduleUpdateModifier(
+        modifier,
+        EMBER_GLIMMER_ERROR_BOUNDARY ? containHooks(this, manager) : manager
+      );
     }
   }
 
@@ -0,0 +1,111 @@
+import { Owner } from '@ember/-internals/owner';
+import { join } from '@ember/runloop';
+import { Option } from '@glimmer/interfaces';
+import { renderIsland } from './component-managers/island';
+import { Component } from './utils/curly-component-state-bucket';
+
+const INTERACTION_EVENTS = ['click', 'focusin', 'keydown', 'mousedown', 'touchstart'];
+
+function isNestedIsland(element: Element, rootElement: Element) {
+  let parent = element.parentElement;
+
+  while (parent !== null && parent !== rootElement) {
+    if (parent.hasAttribute('data-ember-island')) {
+      return true;
+    }
+
+    parent = parent.parentElement;
+  }
+
+  return false;
+}
+
+/*
+  Rehydrates the islands of a page rendered on the server, in the `'islands'`
+  render mode. The markup around them is left inert.
+
+  The component of each island is created with the arguments saved on its
+  element, and rendered into it once the island is visible or interacted
+  with. The islands inside of an island are rendered along with it.
+*/
+export class Islands {
+  private components: Component[] = [];
+  private observer: Option<IntersectionObserver> = null;
+  private teardowns: Array<() => void> = [];
+
+  constructor(private owner: Owner, rootElement: Element) {
+    let elements = rootElement.querySelectorAll('[data-ember-island]');
+
+    for (let i = 0; i < elements.length; i++) {
+      let element = elements[i];
+
+      if (isNestedIsland(element, rootElement)) {
+        continue;
+      }
+
+      if (element.getAttribute('data-ember-island-load') === 'interaction') {
+        this.hydrateOnInteraction(element);
+      } else {
+        this.hydrateWhenVisible(element);
+      }
+    }
+  }
+
+  destroy() {
+    if (this.observer !== null) {
+      this.observer.disconnect();
+    }
+
+    this.teardowns.forEach(teardown => teardown());
+
+    join(() => this.components.forEach(component => component.destroy()));
+  }
+
+  private hydrateWhenVisible(element: Element) {
+    if (typeof IntersectionObserver !== 'function') {
+      this.hydrate(element);
+      return;
+    }
+
+    if (this.observer === null) {
+      this.observer = new IntersectionObserver(entries => {
+        entries.forEach(({ isIntersecting, target }) => {
+          if (isIntersecting) {
+            this.observer!.unobserve(target);
+            this.hydrate(target);
+          }
+        });
+      });
+    }
+
+    this.observer.observe(element);
+  }
+
+  private hydrateOnInteraction(element: Element) {
+    let removeListeners = () => {
+      INTERACTION_EVENTS.forEach(event => element.removeEventListener(event, listener, true));
+    };
+
+    // The listeners capture the event before it reaches the event dispatcher,
+    // which then hands it to the rehydrated component.
+    let listener = () => {
+      removeListeners();
+      this.hydrate(element);
+    };
+
+    INTERACTION_EVENTS.forEach(event => element.addEventListener(event, listener, true));
+
+    this.teardowns.push(removeListeners);
+  }
+
+  private hydrate(element: Element) {
+    let name = element.getAttribute('data-ember-island')!;
+    let args = JSON.parse(element.getAttribute('data-ember-island-args') || '{}');
+
+    join(() => this.components.push(renderIsland(this.owner, name, args, element)));
+  }
+}
+
+export function setupIslands(owner: Owner, rootElement: Element): Islands {
+  return new Islands(owner, rootElement);
+}
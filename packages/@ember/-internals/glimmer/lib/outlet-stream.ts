@@ -0,0 +1,246 @@
+import { assert } from '@ember/debug';
+import { Option, Simple } from '@glimmer/interfaces';
+import { Bounds } from '@glimmer/runtime';
+import { SerializableNode } from '@simple-dom/interface';
+import HTMLSerializer from '@simple-dom/serializer';
+import { renderSettled } from './renderer';
+import { BootEnvironment } from './views/outlet';
+
+export type ChunkWriter = (chunk: string) => void;
+
+/*
+  An outlet rendered by a streaming render. `ref` stands for the `{{outlet}}`
+  it is rendered into, which outlives the routes rendered into it.
+*/
+export interface StreamedOutlet {
+  ref: object;
+  name: string;
+  isRoot: boolean;
+  bounds: Option<Bounds>;
+}
+
+// The void elements of HTML, by node name.
+const VOID_ELEMENTS = {
+  AREA: true,
+  BASE: true,
+  BR: true,
+  COL: true,
+  EMBED: true,
+  HR: true,
+  IMG: true,
+  INPUT: true,
+  LINK: true,
+  META: true,
+  PARAM: true,
+  SOURCE: true,
+  TRACK: true,
+  WBR: true,
+};
+
+/*
+  Replaces the placeholder with the given id by the content of the template
+  streamed with it, then removes the template and itself.
+*/
+function patchScript(id: number) {
+  return (
+    '(function(d,id){' +
+    "var t=d.getElementById('ember-stream-'+id),w=d.createTreeWalker(d,128),s,n;" +
+    "while((s=w.nextNode())&&s.nodeValue!=='ember-stream:'+id);" +
+    "while((n=s.nextSibling).nodeType!==8||n.nodeValue!=='/ember-stream:'+id)" +
+    'n.parentNode.removeChild(n);' +
+    'n.parentNode.replaceChild(t.content,n);' +
+    's.parentNode.removeChild(s);' +
+    't.parentNode.removeChild(t);' +
+    's=d.currentScript;s.parentNode.removeChild(s)' +
+    `})(document,${id})`
+  );
+}
+
+/*
+  Serializes the nodes of a streamed render, writing the outlets still rendering
+  a loading substate between placeholder comments.
+*/
+class StreamSerializer extends HTMLSerializer {
+  constructor(private stream: OutletStream) {
+    super(VOID_ELEMENTS);
+  }
+
+  serializeChildren(node: SerializableNode): string {
+    return this.stream.serializeNodes((node as Simple.Node).firstChild, null);
+  }
+
+  text(text: SerializableNode): string {
+    let { parentNode } = text as Simple.Node;
+
+    // The text of scripts and styles is not parsed as HTML, so it is not
+    // escaped either.
+    if (
+      parentNode !== null &&
+      (parentNode.nodeName === 'SCRIPT' || parentNode.nodeName === 'STYLE')
+    ) {
+      return this.rawHTMLSection(text);
+    }
+
+    return super.text(text);
+  }
+}
+
+/*
+  Streams the HTML of a render in the `'stream'` render mode.
+
+  Once the outlets are rendered, the HTML of the application is written. The
+  outlets rendering the loading substates of routes still waiting for their
+  models are written between placeholder comments. Whenever the router renders
+  the routes they stood in for, the HTML of these outlets is written in a
+  template, followed by a script replacing the placeholder with it.
+*/
+export default class OutletStream {
+  static create({ bootOptions }: { bootOptions: BootEnvironment }) {
+    let { _writeChunk } = bootOptions.options;
+
+    assert(
+      'The `_writeChunk` boot option has to be a function to render in the `stream` mode',
+      typeof _writeChunk === 'function'
+    );
+
+    return new this(_writeChunk);
+  }
+
+  private root: Option<StreamedOutlet> = null;
+  private outlets = new Map<object, StreamedOutlet>();
+  private loadingRoutes = new Map<object, string[]>();
+  private placeholders = new Map<object, number>();
+  private nextId = 0;
+  private didWriteApplication = false;
+  private isFlushScheduled = false;
+  private serializer = new StreamSerializer(this);
+
+  constructor(private write: ChunkWriter) {}
+
+  didRenderOutlet(outlet: StreamedOutlet) {
+    if (outlet.isRoot) {
+      this.root = outlet;
+    } else {
+      this.outlets.set(outlet.ref, outlet);
+    }
+  }
+
+  didDestroyOutlet(outlet: StreamedOutlet) {
+    // The route rendered in its place may already be rendered.
+    if (this.outlets.get(outlet.ref) === outlet) {
+      this.outlets.delete(outlet.ref);
+    }
+  }
+
+  /*
+    Called by the routers when they render, with the names of the loading
+    substates they rendered.
+  */
+  didSetOutlets(router: object, loadingRoutes: string[]) {
+    this.loadingRoutes.set(router, loadingRoutes);
+
+    if (this.isFlushScheduled) {
+      return;
+    }
+
+    this.isFlushScheduled = true;
+
+    renderSettled().then(() => {
+      this.isFlushScheduled = false;
+      this.flush();
+    });
+  }
+
+  private flush() {
+    if (!this.didWriteApplication) {
+      if (this.root !== null) {
+        this.didWriteApplication = true;
+        this.write(this.serializeOutlet(this.root));
+      }
+
+      return;
+    }
+
+    let refs: object[] = [];
+    this.placeholders.forEach((_id, ref) => refs.push(ref));
+
+    for (let i = 0; i < refs.length; i++) {
+      let outlet = this.outlets.get(refs[i]);
+
+      if (outlet === undefined || this.isLoading(outlet)) {
+        continue;
+      }
+
+      let id = this.placeholders.get(outlet.ref)!;
+      this.placeholders.delete(outlet.ref);
+
+      this.write(
+        `<template id="ember-stream-${id}">${this.serializeOutlet(outlet)}</template>` +
+          `<script>${patchScript(id)}</script>`
+      );
+    }
+  }
+
+  private isLoading(outlet: StreamedOutlet) {
+    let isLoading = false;
+
+    this.loadingRoutes.forEach(names => {
+      isLoading = isLoading || names.indexOf(outlet.name) !== -1;
+    });
+
+    return isLoading;
+  }
+
+  private serializeOutlet({ bounds }: StreamedOutlet) {
+    return this.serializeNodes(bounds!.firstNode(), bounds!.lastNode());
+  }
+
+  serializeNodes(first: Option<Simple.Node>, last: Option<Simple.Node>): string {
+    let html = '';
+    let node = first;
+
+    while (node !== null) {
+      let outlet = this.loadingOutletStartingAt(node);
+
+      if (outlet === null) {
+        html += this.serializer.serialize(node);
+      } else {
+        let id = this.nextId++;
+        let lastNode = outlet.bounds!.lastNode();
+
+        this.placeholders.set(outlet.ref, id);
+
+        html += `<!--ember-stream:${id}-->`;
+        html += this.serializeNodes(node, lastNode);
+        html += `<!--/ember-stream:${id}-->`;
+
+        node = lastNode;
+      }
+
+      if (node === last) {
+        break;
+      }
+
+      node = node!.nextSibling;
+    }
+
+    return html;
+  }
+
+  private loadingOutletStartingAt(node: Simple.Node) {
+    let found: Option<StreamedOutlet> = null;
+
+    this.outlets.forEach(outlet => {
+      if (
+        found === null &&
+        !this.placeholders.has(outlet.ref) &&
+        outlet.bounds!.firstNode() === node &&
+        this.isLoading(outlet)
+      ) {
+        found = outlet;
+      }
+    });
+
+    return found as Option<StreamedOutlet>;
+  }
+}
@@ -1,6 +1,11 @@
 import { ENV } from '@ember/-internals/environment';
 import { runInTransaction } from '@ember/-internals/metal';
 import { getViewElement, getViewId } from '@ember/-internals/views';
+import {
+  EMBER_GLIMMER_ERROR_BOUNDARY,
+  EMBER_GLIMMER_RENDER_PRIORITIES,
+  EMBER_GLIMMER_RENDER_PROFILER,
+} from '@ember/canary-features';
 import { assert } from '@ember/debug';
 import { backburner, getCurrentRunLoop } from '@ember/runloop';
 import { Option, Simple } from '@glimmer/interfaces';
@@ -20,6 +25,7 @@ import {
 import { Opaque } from '@glimmer/util';
 import RSVP from 'rsvp';
 import { BOUNDS } from './component';
+import { ErrorBoundaryState, renderContained } from './component-managers/error-boundary';
 import { createRootOutlet } from './component-managers/outlet';
 import { RootComponentDefinition } from './component-managers/root';
 import Environment from './environment';
@@ -27,18 +33,50 @@ import { OwnedTemplate } from './template';
 import { Component } from './utils/curly-component-state-bucket';
 import { OutletState } from './utils/outlet';
 import { UnboundReference } from './utils/references';
+import { profileRootRender } from './utils/render-profile';
 import OutletView from './views/outlet';
 
 export type IBuilder = (env: Environment, cursor: Cursor) => ElementBuilder;
 
+export type RenderPriority = 'user-blocking' | 'normal' | 'idle';
+
+const PRIORITIES: RenderPriority[] = ['user-blocking', 'normal', 'idle'];
+
+function priorityFor(root: Component | OutletView): RenderPriority {
+  let renderPriority = (root as { renderPriority?: RenderPriority }).renderPriority || 'normal';
+
+  assert(
+    `The \`renderPriority\` of a view has to be 'user-blocking', 'normal' or 'idle', not '${renderPriority}'`,
+    PRIORITIES.indexOf(renderPriority) !== -1
+  );
+
+  return renderPriority;
+}
+
+/*
+  Adds a root to a list of roots kept in the order they are revalidated in,
+  from the highest priority to the lowest.
+*/
+function insertByPriority(roots: RootState[], root: RootState) {
+  let index = roots.length;
+  let priority = PRIORITIES.indexOf(root.priority);
+
+  while (index > 0 && PRIORITIES.indexOf(roots[index - 1].priority) > priority) {
+    index--;
+  }
+
+  roots.splice(index, 0, root);
+}
+
 export class DynamicScope implements GlimmerDynamicScope {
   constructor(
     public view: Component | {} | null,
-    public outletState: VersionedPathReference<OutletState | undefined>
+    public outletState: VersionedPathReference<OutletState | undefined>,
+    public errorBoundary: Option<ErrorBoundaryState> = null
   ) {}
 
   child() {
-    return new DynamicScope(this.view, this.outletState);
+    return new DynamicScope(this.view, this.outletState, this.errorBoundary);
   }
 
   get(key: 'outletState'): VersionedPathReference<OutletState | undefined> {
@@ -68,6 +106,8 @@ class RootState {
   public result: RenderResult | undefined;
   public shouldReflush: boolean;
   public destroyed: boolean;
+  public priority: RenderPriority;
+  public isStale: boolean;
   public options: {
     alwaysRevalidate: boolean;
   };
@@ -90,6 +130,8 @@ class RootState {
     this.result = undefined;
     this.shouldReflush = false;
     this.destroyed = false;
+    this.priority = EMBER_GLIMMER_RENDER_PRIORITIES ? priorityFor(root) : 'normal';
+    this.isStale = false;
 
     let options = (this.options = {
       alwaysRevalidate: false,
@@ -186,6 +228,33 @@ function K() {
   /* noop */
 }
 
+declare function requestIdleCallback(
+  callback: (deadline: { timeRemaining(): number }) => void
+): number;
+
+// The time the idle roots are given in an animation frame, when idle periods
+// cannot be requested.
+const FRAME_BUDGET = 8;
+
+function canRequestFrames() {
+  return typeof requestIdleCallback === 'function' || typeof requestAnimationFrame === 'function';
+}
+
+/*
+  Calls back in a later idle period, or animation frame, with a function
+  returning the time left in it.
+*/
+function requestFrame(callback: (timeRemaining: () => number) => void) {
+  if (typeof requestIdleCallback === 'function') {
+    requestIdleCallback(deadline => callback(() => deadline.timeRemaining()));
+  } else {
+    requestAnimationFrame(() => {
+      let start = Date.now();
+      callback(() => FRAME_BUDGET - (Date.now() - start));
+    });
+  }
+}
+
 let renderSettledDeferred: RSVP.Deferred<void> | null = null;
 /*
   Returns a promise which will resolve when rendering has settled. Settled in
@@ -234,6 +303,16 @@ function loopEnd() {
     }
   }
   loops = 0;
+
+  // Rendering settles once the idle roots are rendered too.
+  if (EMBER_GLIMMER_RENDER_PRIORITIES) {
+    for (let i = 0; i < renderers.length; i++) {
+      if (renderers[i]._hasStaleRoots()) {
+        return;
+      }
+    }
+  }
+
   resolveRenderPromise();
 }
 
@@ -254,7 +333,10 @@ export abstract class Renderer {
   private _lastRevision: number;
   private _isRenderingRoots: boolean;
   private _removedRoots: RootState[];
+  private _addedRoots: RootState[];
   private _builder: IBuilder;
+  private _timeRemaining: Option<() => number>;
+  private _isFrameRequested: boolean;
 
   constructor(
     env: Environment,
@@ -272,7 +354,10 @@ export abstract class Renderer {
     this._lastRevision = -1;
     this._isRenderingRoots = false;
     this._removedRoots = [];
+    this._addedRoots = [];
     this._builder = builder;
+    this._timeRemaining = null;
+    this._isFrameRequested = false;
   }
 
   // renderer HOOKS
@@ -380,10 +465,20 @@ export abstract class Renderer {
   _renderRoot(root: RootState) {
     let { _roots: roots } = this;
 
-    roots.push(root);
+    if (EMBER_GLIMMER_RENDER_PRIORITIES && this._isRenderingRoots) {
+      // The roots being revalidated cannot move, so the roots added meanwhile
+      // are put in order once the current pass is done.
+      this._addedRoots.push(root);
+    } else {
+      if (EMBER_GLIMMER_RENDER_PRIORITIES) {
+        insertByPriority(roots, root);
+      } else {
+        roots.push(root);
+      }
 
-    if (roots.length === 1) {
-      register(this);
+      if (roots.length === 1) {
+        register(this);
+      }
     }
 
     this._renderRootsTransaction();
@@ -422,9 +517,19 @@ export abstract class Renderer {
             continue;
           }
 
+          if (EMBER_GLIMMER_RENDER_PRIORITIES && this._shouldDefer(root)) {
+            continue;
+          }
+
+          if (EMBER_GLIMMER_RENDER_PROFILER) {
+            profileRootRender();
+          }
+
           root.options.alwaysRevalidate = shouldReflush;
           // track shouldReflush based on this roots render result
-          shouldReflush = root.shouldReflush = runInTransaction(root, 'render');
+          shouldReflush = root.shouldReflush = EMBER_GLIMMER_ERROR_BOUNDARY
+            ? renderContained(root, env)
+            : runInTransaction(root, 'render');
 
           // globalShouldReflush should be `true` if *any* of
           // the roots need to reflush
@@ -434,6 +539,10 @@ export abstract class Renderer {
         this._lastRevision = CURRENT_TAG.value();
       } finally {
         env.commit();
+
+        if (EMBER_GLIMMER_RENDER_PRIORITIES) {
+          this._insertAddedRoots();
+        }
       }
     } while (globalShouldReflush || roots.length > initialRootsLength);
 
@@ -448,6 +557,78 @@ export abstract class Renderer {
     if (this._roots.length === 0) {
       deregister(this);
     }
+
+    if (EMBER_GLIMMER_RENDER_PRIORITIES && this._hasStaleRoots()) {
+      this._requestIdleRender();
+    }
+  }
+
+  /*
+    The idle roots are revalidated in the frames that follow, for as long as
+    there is time left in them. They are rendered right away the first time,
+    and when frames cannot be requested, such as when rendering on the server.
+  */
+  _shouldDefer(root: RootState) {
+    if (
+      root.priority !== 'idle' ||
+      root.result === undefined ||
+      !this._destinedForDOM ||
+      !canRequestFrames()
+    ) {
+      return false;
+    }
+
+    let { _timeRemaining: timeRemaining } = this;
+
+    root.isStale = timeRemaining === null || timeRemaining() <= 0;
+
+    return root.isStale;
+  }
+
+  _insertAddedRoots() {
+    let { _roots: roots, _addedRoots: addedRoots } = this;
+
+    for (let i = 0; i < addedRoots.length; i++) {
+      insertByPriority(roots, addedRoots[i]);
+    }
+
+    addedRoots.length = 0;
+  }
+
+  _hasStaleRoots() {
+    let { _roots: roots } = this;
+
+    for (let i = 0; i < roots.length; i++) {
+      if (roots[i].isStale && !roots[i].destroyed) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  _requestIdleRender() {
+    if (this._isFrameRequested) {
+      return;
+    }
+
+    this._isFrameRequested = true;
+
+    requestFrame(timeRemaining => {
+      this._isFrameRequested = false;
+
+      if (this._destroyed) {
+        return;
+      }
+
+      this._timeRemaining = timeRemaining;
+
+      try {
+        backburner.join(this, this._renderRootsTransaction);
+      } finally {
+        this._timeRemaining = null;
+      }
+    });
   }
 
   _renderRootsTransaction() {
@@ -477,6 +658,10 @@ export abstract class Renderer {
   }
 
   _clearAllRoots() {
+    if (EMBER_GLIMMER_RENDER_PRIORITIES) {
+      this._insertAddedRoots();
+    }
+
     let roots = this._roots;
     for (let i = 0; i < roots.length; i++) {
       let root = roots[i];
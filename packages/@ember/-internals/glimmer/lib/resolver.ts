@@ -4,9 +4,12 @@ import { LookupOptions, Owner, setOwner } from '@ember/-internals/owner';
 import { lookupComponent, lookupPartial, OwnedTemplateMeta } from '@ember/-internals/views';
 import {
   EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS,
+  EMBER_GLIMMER_ERROR_BOUNDARY,
   EMBER_GLIMMER_FN_HELPER,
+  EMBER_GLIMMER_ISLANDS,
   EMBER_GLIMMER_ON_MODIFIER,
   EMBER_MODULE_UNIFICATION,
+  EMBER_ROUTING_NAMED_ROUTERS,
 } from '@ember/canary-features';
 import { assert } from '@ember/debug';
 import { _instrumentStart } from '@ember/instrumentation';
@@ -21,9 +24,14 @@ import { getDynamicVar, Helper, ModifierDefinition } from '@glimmer/runtime';
 import CompileTimeLookup from './compile-time-lookup';
 import { CurlyComponentDefinition } from './component-managers/curly';
 import { CustomManagerDefinition, ManagerDelegate } from './component-managers/custom';
+import {
+  errorBoundaryEndHelper,
+  errorBoundaryStartHelper,
+} from './component-managers/error-boundary';
 import InternalComponentManager, {
   InternalComponentDefinition,
 } from './component-managers/internal';
+import { islandComponentHelper } from './component-managers/island';
 import { TemplateOnlyComponentDefinition } from './component-managers/template-only';
 import { isHelperFactory, isSimpleHelper } from './helper';
 import { default as componentAssertionHelper } from './helpers/-assert-implicit-component-helper-argument';
@@ -48,7 +56,7 @@ import { CustomModifierDefinition, ModifierManagerDelegate } from './modifiers/c
 import OnModifierManager from './modifiers/on';
 import { populateMacros } from './syntax';
 import { mountHelper } from './syntax/mount';
-import { outletHelper } from './syntax/outlet';
+import { outletHelper, routerOutletHelper } from './syntax/outlet';
 import { Factory as TemplateFactory, Injections, OwnedTemplate } from './template';
 import { getModifierManager } from './utils/custom-modifier-manager';
 import { getManager } from './utils/managers';
@@ -97,6 +105,19 @@ if (EMBER_GLIMMER_FN_HELPER) {
   BUILTINS_HELPERS.fn = fn;
 }
 
+if (EMBER_ROUTING_NAMED_ROUTERS) {
+  BUILTINS_HELPERS['-router-outlet'] = routerOutletHelper;
+}
+
+if (EMBER_GLIMMER_ERROR_BOUNDARY) {
+  BUILTINS_HELPERS['-error-boundary-start'] = errorBoundaryStartHelper;
+  BUILTINS_HELPERS['-error-boundary-end'] = errorBoundaryEndHelper;
+}
+
+if (EMBER_GLIMMER_ISLANDS) {
+  BUILTINS_HELPERS['-island-component'] = islandComponentHelper;
+}
+
 interface IBuiltInModifiers {
   [name: string]: ModifierDefinition | undefined;
 }
@@ -1,11 +1,18 @@
 import { hasDOM } from '@ember/-internals/browser-environment';
 import { privatize as P, Registry } from '@ember/-internals/container';
 import { ENV } from '@ember/-internals/environment';
-import { EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS } from '@ember/canary-features';
+import {
+  EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS,
+  EMBER_GLIMMER_ERROR_BOUNDARY,
+  EMBER_GLIMMER_ISLANDS,
+  EMBER_GLIMMER_STREAMING,
+} from '@ember/canary-features';
 import { Simple } from '@glimmer/interfaces';
 import Component from './component';
 import Checkbox from './components/checkbox';
+import ErrorBoundary from './components/error-boundary';
 import Input from './components/input';
+import Island from './components/island';
 import LinkToComponent from './components/link-to';
 import TextField from './components/text-field';
 import TextArea from './components/textarea';
@@ -19,10 +26,13 @@ import {
 } from './dom';
 import Environment from './environment';
 import loc from './helpers/loc';
+import OutletStream from './outlet-stream';
 import { InertRenderer, InteractiveRenderer } from './renderer';
 import TemplateCompiler from './template-compiler';
 import ComponentTemplate from './templates/component';
+import ErrorBoundaryTemplate from './templates/error-boundary';
 import InputTemplate from './templates/input';
+import IslandTemplate from './templates/island';
 import OutletTemplate from './templates/outlet';
 import RootTemplate from './templates/root';
 import OutletView from './views/outlet';
@@ -42,6 +52,16 @@ export function setupApplicationRegistry(registry: Registry) {
     create({ bootOptions }: { bootOptions: { _renderMode: string } }) {
       let { _renderMode } = bootOptions;
 
+      if (EMBER_GLIMMER_STREAMING && _renderMode === 'stream') {
+        // The streamed HTML is rehydrated like the serialized one.
+        return serializeBuilder.bind(null);
+      }
+
+      if (EMBER_GLIMMER_ISLANDS && _renderMode === 'islands') {
+        // Only the components of the islands are rendered, rehydrating them.
+        return rehydrationBuilder.bind(null);
+      }
+
       switch (_renderMode) {
         case 'serialize':
           return serializeBuilder.bind(null);
@@ -55,6 +75,11 @@ export function setupApplicationRegistry(registry: Registry) {
   registry.injection('service:-dom-builder', 'bootOptions', '-environment:main');
   registry.injection('renderer', 'builder', 'service:-dom-builder');
 
+  if (EMBER_GLIMMER_STREAMING) {
+    registry.register('service:-outlet-stream', OutletStream);
+    registry.injection('service:-outlet-stream', 'bootOptions', '-environment:main');
+  }
+
   registry.register(P`template:-root`, RootTemplate);
   registry.injection('renderer', 'rootTemplate', P`template:-root`);
 
@@ -113,7 +138,18 @@ export function setupEngineRegistry(registry: Registry) {
     registry.register('component:-text-area', TextArea);
   }
 
-  if (!ENV._TEMPLATE_ONLY_GLIMMER_COMPONENTS) {
+  if (EMBER_GLIMMER_ERROR_BOUNDARY) {
+    registry.register('component:error-boundary', ErrorBoundary);
+    registry.register('template:components/error-boundary', ErrorBoundaryTemplate);
+  }
+
+  if (EMBER_GLIMMER_ISLANDS) {
+    registry.register('component:island', Island);
+    registry.register('template:components/island', IslandTemplate);
+  }
+
+  // Islands create the default component for template-only components.
+  if (!ENV._TEMPLATE_ONLY_GLIMMER_COMPONENTS || EMBER_GLIMMER_ISLANDS) {
     registry.register(P`component:-default`, Component);
   }
 }
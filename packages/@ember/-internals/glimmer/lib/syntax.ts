@@ -1,5 +1,8 @@
 import { OwnedTemplateMeta } from '@ember/-internals/views';
-import { EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS } from '@ember/canary-features';
+import {
+  EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS,
+  EMBER_ROUTING_NAMED_ROUTERS,
+} from '@ember/canary-features';
 import { assert } from '@ember/debug';
 import { CompilableBlock } from '@glimmer/interfaces';
 import { Macros, OpcodeBuilder } from '@glimmer/opcode-compiler';
@@ -9,7 +12,7 @@ import CompileTimeLookup from './compile-time-lookup';
 import { inputMacro } from './syntax/input';
 import { blockLetMacro } from './syntax/let';
 import { mountMacro } from './syntax/mount';
-import { outletMacro } from './syntax/outlet';
+import { outletMacro, routerOutletMacro } from './syntax/outlet';
 import { textAreaMacro } from './syntax/textarea';
 import { hashToArgs } from './syntax/utils';
 import { wrapComponentClassAttribute } from './utils/bindings';
@@ -99,6 +102,10 @@ export function populateMacros(macros: Macros) {
   inlines.add('outlet', outletMacro);
   inlines.add('mount', mountMacro);
 
+  if (EMBER_ROUTING_NAMED_ROUTERS) {
+    inlines.add('router-outlet', routerOutletMacro);
+  }
+
   if (!EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS) {
     inlines.add('input', inputMacro);
     inlines.add('textarea', textAreaMacro);
@@ -1,4 +1,5 @@
 import { OwnedTemplateMeta } from '@ember/-internals/views';
+import { assert } from '@ember/debug';
 import { Option } from '@glimmer/interfaces';
 import { OpcodeBuilder } from '@glimmer/opcode-compiler';
 import { ConstReference, Reference, Tag, VersionedPathReference } from '@glimmer/reference';
@@ -11,6 +12,7 @@ import {
 } from '@glimmer/runtime';
 import * as WireFormat from '@glimmer/wire-format';
 import { OutletComponentDefinition, OutletDefinitionState } from '../component-managers/outlet';
+import Environment from '../environment';
 import { DynamicScope } from '../renderer';
 import { OutletReference, OutletState } from '../utils/outlet';
 
@@ -84,6 +86,59 @@ export function outletMacro(
   return true;
 }
 
+/**
+  The `{{router-outlet}}` helper renders the routes of a named router, declared
+  with `Router.mapRouter`, the way `{{outlet}}` renders the routes of the
+  application. It takes the name of the router:
+
+  ```handlebars
+  {{! app/templates/application.hbs }}
+  <main>{{outlet}}</main>
+  <aside>{{router-outlet "panel"}}</aside>
+  ```
+
+  @method router-outlet
+  @param {String} name
+  @for Ember.Templates.helpers
+  @category EMBER_ROUTING_NAMED_ROUTERS
+  @public
+*/
+export function routerOutletHelper(vm: VM, args: Arguments) {
+  let env = vm.env as Environment;
+  let name = args.positional.at<VersionedPathReference<string>>(0).value();
+  let router = env.owner.lookup<any>(`-router:${name}`);
+
+  assert(
+    `You used \`{{router-outlet '${name}'}}\`, but there is no router named '${name}'. Named routers are declared with \`Router.mapRouter\`.`,
+    router !== undefined
+  );
+
+  return new OutletComponentReference(
+    new OutletReference(router._toplevelView.ref, new ConstReference('main'))
+  );
+}
+
+export function routerOutletMacro(
+  _name: string,
+  params: Option<WireFormat.Core.Params>,
+  hash: Option<WireFormat.Core.Hash>,
+  builder: OpcodeBuilder<OwnedTemplateMeta>
+) {
+  assert(
+    'You can only pass the name of a router as a string to the {{router-outlet}} helper, e.g. {{router-outlet "panel"}}.',
+    params !== null && params.length === 1 && typeof params[0] === 'string'
+  );
+
+  let expr: WireFormat.Expressions.Helper = [
+    WireFormat.Ops.Helper,
+    '-router-outlet',
+    params || [],
+    hash,
+  ];
+  builder.dynamicComponent(expr, null, [], null, false, null, null);
+  return true;
+}
+
 class OutletComponentReference
   implements VersionedPathReference<CurriedComponentDefinition | null> {
   public tag: Tag;
@@ -0,0 +1,3 @@
+import { Factory } from '../template';
+declare const TEMPLATE: Factory;
+export default TEMPLATE;
@@ -3,6 +3,7 @@ import { Revision, VersionedReference } from '@glimmer/reference';
 import { CapturedNamedArguments } from '@glimmer/runtime';
 import { Opaque } from '@glimmer/util';
 import Environment from '../environment';
+import { Renderer } from '../renderer';
 import { Factory as TemplateFactory, OwnedTemplate } from '../template';
 
 export interface Component {
@@ -17,6 +18,7 @@ export interface Component {
   tagName: string;
   isDestroying: boolean;
   appendChild(view: {}): void;
+  renderer: Renderer;
   trigger(event: string): void;
   destroy(): void;
   setProperties(props: { [key: string]: any }): void;
@@ -39,13 +41,17 @@ function NOOP() {}
 export default class ComponentStateBucket {
   public classRef: VersionedReference<Opaque> | null = null;
   public argsRevision: Revision;
+  // The revision of the properties of the component when it was last
+  // rendered, which is only kept for the render profile.
+  public selfRevision: Revision = 0;
 
   constructor(
     public environment: Environment,
     public component: Component,
     public args: CapturedNamedArguments | null,
     public finalizer: Finalizer,
-    public hasWrappedElement: boolean
+    public hasWrappedElement: boolean,
+    public name: string
   ) {
     this.classRef = null;
     this.argsRevision = args === null ? 0 : args.tag.value();
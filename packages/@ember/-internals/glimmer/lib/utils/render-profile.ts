@@ -0,0 +1,154 @@
+import { assert } from '@ember/debug';
+import { _time as time } from '@ember/instrumentation';
+import { Option } from '@glimmer/interfaces';
+
+export interface RenderProfileNode {
+  name: string;
+  creates: number;
+  updates: number;
+  selfTime: number;
+  totalTime: number;
+  children: RenderProfileNode[];
+}
+
+/*
+  How a component is rendered: created, updated because its arguments or its
+  own properties changed, or only revalidated on the way to its children.
+*/
+export type RenderKind = 'create' | 'update' | 'revalidate';
+
+export interface RenderProfile {
+  duration: number;
+  rootRenders: number;
+  components: RenderProfileNode[];
+}
+
+interface Frame {
+  node: RenderProfileNode;
+  start: number;
+  childTime: number;
+}
+
+function nodeFor(nodes: RenderProfileNode[], name: string): RenderProfileNode {
+  for (let i = 0; i < nodes.length; i++) {
+    if (nodes[i].name === name) {
+      return nodes[i];
+    }
+  }
+
+  let node = { name, creates: 0, updates: 0, selfTime: 0, totalTime: 0, children: [] };
+  nodes.push(node);
+
+  return node;
+}
+
+/*
+  Records the components rendered between `startRenderProfile()` and
+  `stopRenderProfile()`, as a tree of component names where the components
+  rendered from the same parent with the same name share a node. The
+  components that are only revalidated are in the tree without being counted
+  as updated.
+
+  The self time of a node is its total time without the time spent in its
+  children. Times are in milliseconds.
+*/
+class Profiler {
+  private start = time();
+  private rootRenders = 0;
+  private components: RenderProfileNode[] = [];
+  private stack: Frame[] = [];
+
+  willRenderRoot() {
+    // A render that threw can leave frames behind, which must not become the
+    // parents of the components rendered next.
+    this.stack.length = 0;
+    this.rootRenders++;
+  }
+
+  willRender(name: string, kind: RenderKind) {
+    let { stack } = this;
+    let parent = stack.length === 0 ? null : stack[stack.length - 1].node;
+    let node = nodeFor(parent === null ? this.components : parent.children, name);
+
+    if (kind === 'create') {
+      node.creates++;
+    } else if (kind === 'update') {
+      node.updates++;
+    }
+
+    stack.push({ node, start: time(), childTime: 0 });
+  }
+
+  didRender() {
+    let { stack } = this;
+    let frame = stack.pop();
+
+    if (frame === undefined) {
+      return;
+    }
+
+    let elapsed = time() - frame.start;
+
+    frame.node.totalTime += elapsed;
+    frame.node.selfTime += elapsed - frame.childTime;
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].childTime += elapsed;
+    }
+  }
+
+  stop(): RenderProfile {
+    let { start, rootRenders, components } = this;
+
+    return { duration: time() - start, rootRenders, components };
+  }
+}
+
+let profiler: Option<Profiler> = null;
+
+/*
+  Starts recording how long the components take to render and update, until
+  `stopRenderProfile()` is called.
+*/
+export function startRenderProfile(): void {
+  assert(
+    'A render profile has already been started, call `stopRenderProfile()` first',
+    profiler === null
+  );
+
+  profiler = new Profiler();
+}
+
+/*
+  Stops the render profile and returns what was recorded, as a plain object
+  that can be serialized with `JSON.stringify`. Throws if no render profile
+  has been started.
+*/
+export function stopRenderProfile(): RenderProfile {
+  if (profiler === null) {
+    throw new Error('No render profile has been started, call `startRenderProfile()` first');
+  }
+
+  let profile = profiler.stop();
+  profiler = null;
+
+  return profile;
+}
+
+export function profileRootRender(): void {
+  if (profiler !== null) {
+    profiler.willRenderRoot();
+  }
+}
+
+export function profileRenderStart(name: string, kind: RenderKind): void {
+  if (profiler !== null) {
+    profiler.willRender(name, kind);
+  }
+}
+
+export function profileRenderEnd(): void {
+  if (profiler !== null) {
+    profiler.didRender();
+  }
+}
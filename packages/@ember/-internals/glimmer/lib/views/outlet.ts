@@ -11,6 +11,7 @@ export interface BootEnvironment {
   hasDOM: boolean;
   isInteractive: boolean;
   options: any;
+  _renderMode?: string;
 }
 
 const TOP_LEVEL_NAME = '-top-level';
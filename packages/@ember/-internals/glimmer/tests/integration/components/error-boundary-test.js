@@ -0,0 +1,219 @@
+import { moduleFor, RenderingTestCase, runTask } from 'internal-test-helpers';
+
+import { EMBER_GLIMMER_ERROR_BOUNDARY } from '@ember/canary-features';
+import { getOnerror, setOnerror } from '@ember/-internals/error-handling';
+import { capabilities, setComponentManager } from '@ember/-internals/glimmer';
+import { set } from '@ember/-internals/metal';
+import { Object as EmberObject } from '@ember/-internals/runtime';
+
+import { Component } from '../../utils/helpers';
+
+if (EMBER_GLIMMER_ERROR_BOUNDARY) {
+  moduleFor(
+    'Components test: <ErrorBoundary>',
+    class extends RenderingTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.originalOnerror = getOnerror();
+        this.errors = [];
+
+        this.registerHelper('explode', ([shouldThrow]) => {
+          if (shouldThrow) {
+            throw new Error('the helper exploded');
+          }
+
+          return 'fine';
+        });
+
+        this.registerHelper('capture-reset', ([reset]) => {
+          this.reset = reset;
+        });
+      }
+
+      teardown() {
+        setOnerror(this.originalOnerror);
+        super.teardown();
+      }
+
+      renderBoundary(block, context = {}) {
+        this.render(
+          `before <ErrorBoundary @onError={{this.onError}} as |error reset|>{{#if error}}failed: {{error.message}}{{capture-reset reset}}{{else}}${block}{{/if}}</ErrorBoundary> after`,
+          Object.assign({ onError: error => this.errors.push(error.message) }, context)
+        );
+      }
+
+      ['@test it renders its block when nothing is thrown']() {
+        this.renderBoundary('{{explode false}}');
+
+        this.assertText('before fine after');
+        this.assert.deepEqual(this.errors, []);
+      }
+
+      ['@test it contains the errors of helpers during the initial render']() {
+        this.renderBoundary('{{explode true}}');
+
+        this.assertText('before failed: the helper exploded after');
+        this.assert.deepEqual(this.errors, ['the helper exploded']);
+      }
+
+      ['@test it contains the errors of helpers when the block is updated']() {
+        this.renderBoundary('{{explode this.shouldThrow}}', { shouldThrow: false });
+
+        this.assertText('before fine after');
+
+        runTask(() => set(this.context, 'shouldThrow', true));
+
+        this.assertText('before failed: the helper exploded after');
+        this.assert.deepEqual(this.errors, ['the helper exploded']);
+      }
+
+      ['@test it contains the errors of component constructors']() {
+        this.registerComponent('broken-widget', {
+          ComponentClass: Component.extend({
+            init() {
+              this._super(...arguments);
+              throw new Error('the constructor exploded');
+            },
+          }),
+          template: 'widget',
+        });
+
+        this.renderBoundary('{{broken-widget}}');
+
+        this.assertText('before failed: the constructor exploded after');
+        this.assert.deepEqual(this.errors, ['the constructor exploded']);
+      }
+
+      ['@test it contains the errors of didInsertElement']() {
+        this.registerComponent('broken-widget', {
+          ComponentClass: Component.extend({
+            didInsertElement() {
+              throw new Error('didInsertElement exploded');
+            },
+          }),
+          template: 'widget',
+        });
+
+        this.renderBoundary('<BrokenWidget />');
+
+        this.assertText('before failed: didInsertElement exploded after');
+        this.assert.deepEqual(this.errors, ['didInsertElement exploded']);
+      }
+
+      ['@test it contains the errors of components with a custom manager']() {
+        let ComponentClass = setComponentManager(
+          () =>
+            EmberObject.create({
+              capabilities: capabilities('3.4'),
+
+              createComponent(factory, args) {
+                if (args.named.shouldThrow) {
+                  throw new Error('createComponent exploded');
+                }
+
+                return factory.create({ args });
+              },
+
+              updateComponent(component, args) {
+                if (args.named.shouldThrow) {
+                  throw new Error('updateComponent exploded');
+                }
+
+                set(component, 'args', args);
+              },
+
+              getContext(component) {
+                return component;
+              },
+            }),
+          EmberObject.extend()
+        );
+
+        this.registerComponent('custom-widget', { ComponentClass, template: 'widget' });
+
+        this.renderBoundary('<CustomWidget @shouldThrow={{this.shouldThrow}} />', {
+          shouldThrow: false,
+        });
+
+        this.assertText('before widget after');
+
+        runTask(() => set(this.context, 'shouldThrow', true));
+
+        this.assertText('before failed: updateComponent exploded after');
+
+        runTask(() => this.reset());
+
+        this.assertText('before failed: createComponent exploded after');
+        this.assert.deepEqual(this.errors, [
+          'updateComponent exploded',
+          'createComponent exploded',
+        ]);
+      }
+
+      ['@test it tears down the part of the block that was rendered before the error']() {
+        this.renderBoundary(
+          '<p>one</p>{{#if this.showMore}}<div>two {{#if true}}three {{explode true}}{{/if}}</div>{{/if}}',
+          { showMore: false }
+        );
+
+        this.assertText('before one after');
+
+        runTask(() => set(this.context, 'showMore', true));
+
+        this.assertText('before failed: the helper exploded after');
+        this.assert.equal(this.element.querySelectorAll('p, div').length, 0);
+
+        runTask(() => set(this.context, 'showMore', false));
+
+        this.assertText('before failed: the helper exploded after');
+      }
+
+      ['@test the block can be rendered again with the yielded reset action']() {
+        this.renderBoundary('{{explode this.shouldThrow}}', { shouldThrow: true });
+
+        this.assertText('before failed: the helper exploded after');
+
+        runTask(() => this.reset());
+
+        this.assertText('before failed: the helper exploded after');
+
+        runTask(() => {
+          set(this.context, 'shouldThrow', false);
+          this.reset();
+        });
+
+        this.assertText('before fine after');
+        this.assert.deepEqual(this.errors, ['the helper exploded', 'the helper exploded']);
+
+        runTask(() => set(this.context, 'shouldThrow', true));
+
+        this.assertText('before failed: the helper exploded after');
+      }
+
+      ['@test the errors are routed to Ember.onerror'](assert) {
+        let errors = [];
+        setOnerror(error => errors.push(error.message));
+
+        this.render('<ErrorBoundary>{{explode true}}</ErrorBoundary>');
+
+        this.assertText('');
+        assert.deepEqual(errors, ['the helper exploded']);
+      }
+
+      ['@test the errors of the fallback are contained by the boundary around it']() {
+        this.render(
+          '<ErrorBoundary as |outer|>{{#if outer}}outer: {{outer.message}}{{else}}<ErrorBoundary as |inner|>{{explode true}}{{if inner (explode inner)}}</ErrorBoundary>{{/if}}</ErrorBoundary>'
+        );
+
+        this.assertText('outer: the helper exploded');
+      }
+
+      ['@test errors outside of a boundary are still thrown'](assert) {
+        assert.throws(() => {
+          this.render('{{explode true}}<ErrorBoundary>fine</ErrorBoundary>');
+        }, /the helper exploded/);
+      }
+    }
+  );
+}
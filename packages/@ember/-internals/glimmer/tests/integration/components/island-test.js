@@ -0,0 +1,164 @@
+import { moduleFor, RenderingTestCase, runTask } from 'internal-test-helpers';
+
+import { EMBER_GLIMMER_ISLANDS } from '@ember/canary-features';
+import { set } from '@ember/-internals/metal';
+
+import { Component } from '../../utils/helpers';
+
+if (EMBER_GLIMMER_ISLANDS) {
+  moduleFor(
+    'Components test: <Island>',
+    class extends RenderingTestCase {
+      ['@test it renders the component in an island element'](assert) {
+        this.registerComponent('x-greeting', {
+          ComponentClass: Component.extend({ tagName: 'p' }),
+          template: 'Hello {{this.name}}',
+        });
+
+        this.render('<Island @component="x-greeting" @args={{hash name=this.name}} />', {
+          name: 'world',
+        });
+
+        let island = this.element.firstChild;
+
+        assert.equal(island.tagName, 'DIV');
+        assert.notOk(
+          island.hasAttribute('data-ember-island-args'),
+          'the arguments are only saved on the server'
+        );
+        assert.equal(island.querySelector('p').textContent, 'Hello world');
+
+        this.assertStableRerender();
+
+        runTask(() => set(this.context, 'name', 'island'));
+
+        this.assertText('Hello island');
+
+        runTask(() => set(this.context, 'name', 'world'));
+
+        this.assertText('Hello world');
+      }
+
+      ['@test the component is invoked as a child of the template'](assert) {
+        let component, parent;
+        let hooks = [];
+
+        this.registerComponent('x-greeting', {
+          ComponentClass: Component.extend({
+            init() {
+              this._super(...arguments);
+              component = this;
+            },
+
+            didReceiveAttrs() {
+              hooks.push(`didReceiveAttrs ${this.name}`);
+            },
+
+            didUpdateAttrs() {
+              hooks.push(`didUpdateAttrs ${this.name}`);
+            },
+          }),
+          template: 'Hello {{this.name}}: {{yield}}',
+        });
+        this.registerComponent('x-parent', {
+          ComponentClass: Component.extend({
+            init() {
+              this._super(...arguments);
+              parent = this;
+            },
+          }),
+          template: '<Island @component="x-greeting" @args={{hash name=@name}}>{{@body}}</Island>',
+        });
+
+        this.render('{{x-parent name=this.name body=this.body}}', {
+          name: 'world',
+          body: 'block',
+        });
+
+        this.assertText('Hello world: block');
+        assert.strictEqual(component.parentView, parent);
+        assert.deepEqual(hooks, ['didReceiveAttrs world']);
+
+        runTask(() => set(this.context, 'name', 'island'));
+
+        this.assertText('Hello island: block');
+        assert.deepEqual(hooks, [
+          'didReceiveAttrs world',
+          'didUpdateAttrs island',
+          'didReceiveAttrs island',
+        ]);
+
+        runTask(() => set(this.context, 'body', 'updated'));
+
+        this.assertText('Hello island: updated');
+      }
+
+      ['@test the arguments have to be plain JSON data']() {
+        this.registerComponent('x-greeting', { template: 'Hello' });
+
+        expectAssertion(() => {
+          this.render(
+            '<Island @component="x-greeting" @args={{hash onClick=(action this.go)}} />',
+            {
+              go() {},
+            }
+          );
+        }, 'The `@args` of the `<Island />` of "x-greeting" have to be plain JSON data, as they are saved on its element');
+      }
+
+      ['@test it renders template-only components']() {
+        this.registerComponent('x-greeting', { template: 'Hello {{this.name}}' });
+
+        this.render(
+          '<Island @component="x-greeting" @load="interaction" @args={{hash name="you"}} />'
+        );
+
+        this.assertText('Hello you');
+      }
+
+      ['@test the component handles its events'](assert) {
+        this.registerComponent('x-counter', {
+          ComponentClass: Component.extend({
+            count: 0,
+
+            actions: {
+              increment() {
+                this.incrementProperty('count');
+              },
+            },
+          }),
+          template: '<button {{action "increment"}}>{{this.count}}</button>',
+        });
+
+        this.render('<Island @component="x-counter" @args={{hash count=1}} />');
+
+        runTask(() => this.$('button').click());
+
+        assert.equal(this.$('button').text(), '2');
+      }
+
+      ['@test the component is destroyed with the island'](assert) {
+        let destroyed = 0;
+
+        this.registerComponent('x-greeting', {
+          ComponentClass: Component.extend({
+            willDestroy() {
+              this._super(...arguments);
+              destroyed++;
+            },
+          }),
+          template: 'Hello',
+        });
+
+        this.render('{{#if this.show}}<Island @component="x-greeting" />{{/if}}', { show: true });
+
+        this.assertText('Hello');
+
+        runTask(() => set(this.context, 'show', false));
+
+        this.assertText('');
+        assert.equal(destroyed, 1);
+      }
+    }
+  );
+}
@@ -0,0 +1,318 @@
+/* eslint-disable no-inner-declarations */
+// ^^^ remove after unflagging EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS
+import { moduleFor, ApplicationTestCase, runLoopSettled, runTask } from 'internal-test-helpers';
+import {
+  EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS,
+  EMBER_ROUTING_PREFETCH,
+} from '@ember/canary-features';
+import Controller from '@ember/controller';
+import { RSVP } from '@ember/-internals/runtime';
+import { Route } from '@ember/-internals/routing';
+
+if (EMBER_GLIMMER_ANGLE_BRACKET_BUILT_INS && EMBER_ROUTING_PREFETCH) {
+  function createIntersectionObserver() {
+    let observers = [];
+
+    function FakeIntersectionObserver(callback) {
+      this.callback = callback;
+      this.elements = [];
+      observers.push(this);
+    }
+
+    FakeIntersectionObserver.prototype.observe = function(element) {
+      this.elements.push(element);
+    };
+
+    FakeIntersectionObserver.prototype.disconnect = function() {
+      this.elements = [];
+    };
+
+    FakeIntersectionObserver.observers = observers;
+
+    return FakeIntersectionObserver;
+  }
+
+  moduleFor(
+    '<LinkTo /> component (prefetching)',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.prefetched = [];
+        this.modelCalls = [];
+
+        let test = this;
+
+        this.router.map(function() {
+          this.route('about');
+          this.route('posts', function() {
+            this.route('post', { path: '/:post_id' });
+          });
+        });
+
+        this.add(
+          'route:posts',
+          Route.extend({
+            prefetch() {
+              test.prefetched.push('posts');
+              return {};
+            },
+          })
+        );
+
+        this.add(
+          'route:posts.post',
+          Route.extend({
+            prefetch(params) {
+              test.prefetched.push(params);
+              return RSVP.resolve({ id: params.post_id, prefetched: true });
+            },
+
+            model(params) {
+              test.modelCalls.push(params.post_id);
+              return { id: params.post_id, prefetched: false };
+            },
+          })
+        );
+
+        this.addTemplate('about', 'About');
+        this.addTemplate(
+          'posts.post',
+          '{{this.model.id}}: {{if this.model.prefetched "prefetched" "loaded"}}'
+        );
+      }
+
+      teardown() {
+        delete window.IntersectionObserver;
+
+        super.teardown();
+      }
+
+      hover(selector) {
+        let element = this.element.querySelector(selector);
+
+        runTask(() => element.dispatchEvent(new window.MouseEvent('mouseover', { bubbles: true })));
+
+        return runLoopSettled();
+      }
+
+      focus(selector) {
+        let element = this.element.querySelector(selector);
+
+        runTask(() => element.focus());
+
+        return runLoopSettled();
+      }
+
+      async ['@test @prefetch="hover" prefetches when the link is hovered'](assert) {
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model='1' @prefetch='hover' id='post-link'>Post</LinkTo>`
+        );
+
+        await this.visit('/');
+        assert.deepEqual(this.prefetched, [], 'nothing is prefetched before hovering');
+
+        await this.hover('#post-link');
+        assert.deepEqual(this.prefetched, ['posts', { post_id: '1' }]);
+
+        await this.focus('#post-link');
+        await this.hover('#post-link');
+        assert.deepEqual(this.prefetched, ['posts', { post_id: '1' }], 'data is prefetched once');
+
+        await this.click('#post-link');
+
+        this.assertText('1: prefetched');
+        assert.deepEqual(this.modelCalls, [], 'the model hook was not called');
+      }
+
+      async ['@test @prefetch="hover" prefetches when the link is focused'](assert) {
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model='1' @prefetch='hover' id='post-link'>Post</LinkTo>`
+        );
+
+        await this.visit('/');
+        await this.focus('#post-link');
+
+        assert.deepEqual(this.prefetched, ['posts', { post_id: '1' }]);
+      }
+
+      async ['@test @prefetch="eager" prefetches when the link is rendered'](assert) {
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model='2' @prefetch='eager' id='post-link'>Post</LinkTo>`
+        );
+
+        await this.visit('/');
+        assert.deepEqual(this.prefetched, ['posts', { post_id: '2' }]);
+
+        await this.visit('/posts/2');
+
+        this.assertText('2: prefetched');
+        assert.deepEqual(this.modelCalls, [], 'the model hook was not called');
+      }
+
+      async ['@test @prefetch="visible" prefetches when the link is scrolled into view'](assert) {
+        let FakeIntersectionObserver = (window.IntersectionObserver = createIntersectionObserver());
+
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model='3' @prefetch='visible' id='post-link'>Post</LinkTo>`
+        );
+
+        await this.visit('/');
+
+        let [observer] = FakeIntersectionObserver.observers;
+        assert.deepEqual(observer.elements, [this.element.querySelector('#post-link')]);
+
+        observer.callback([{ isIntersecting: false }]);
+        await runLoopSettled();
+        assert.deepEqual(this.prefetched, [], 'nothing is prefetched while the link is hidden');
+
+        observer.callback([{ isIntersecting: true }]);
+        await runLoopSettled();
+        assert.deepEqual(this.prefetched, ['posts', { post_id: '3' }]);
+        assert.deepEqual(observer.elements, [], 'the link is no longer observed');
+      }
+
+      async ['@test links without @prefetch do not prefetch'](assert) {
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model='1' id='post-link'>Post</LinkTo>`
+        );
+
+        await this.visit('/');
+        await this.hover('#post-link');
+        await this.click('#post-link');
+
+        this.assertText('1: loaded');
+        assert.deepEqual(this.prefetched, []);
+        assert.deepEqual(this.modelCalls, ['1']);
+      }
+
+      async ['@test active routes and routes given a model are not prefetched'](assert) {
+        this.addTemplate(
+          'posts.index',
+          `<LinkTo @route='posts.post' @model='1' @prefetch='eager'>Post</LinkTo>`
+        );
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model={{hash id='1'}} @prefetch='eager'>Post</LinkTo>`
+        );
+
+        await this.visit('/');
+        assert.deepEqual(this.prefetched, ['posts'], 'posts.post is given its model');
+
+        await this.visit('/posts');
+        assert.deepEqual(this.prefetched, ['posts', { post_id: '1' }], 'posts is already active');
+      }
+
+      async ['@test a route entered with other params calls its model hook'](assert) {
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model='1' @prefetch='eager'>Post</LinkTo>`
+        );
+
+        await this.visit('/');
+        await this.visit('/posts/2');
+
+        this.assertText('2: loaded');
+        assert.deepEqual(this.modelCalls, ['2']);
+      }
+
+      async ['@test the query params that refresh the model are part of the prefetched params'](
+        assert
+      ) {
+        let test = this;
+
+        this.add(
+          'controller:posts.post',
+          Controller.extend({
+            queryParams: ['page'],
+            page: 1,
+          })
+        );
+        this.add(
+          'route:posts.post',
+          Route.extend({
+            queryParams: {
+              page: { refreshModel: true },
+            },
+
+            prefetch(params) {
+              test.prefetched.push(params);
+              return RSVP.resolve({ id: params.post_id, prefetched: true });
+            },
+
+            model(params) {
+              test.modelCalls.push([params.post_id, params.page]);
+              return { id: params.post_id, prefetched: false };
+            },
+          })
+        );
+
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model='1' @query={{hash page=1}} @prefetch='eager'>Page 1</LinkTo>`
+        );
+
+        await this.visit('/');
+        await this.visit('/posts/1?page=2');
+
+        this.assertText('1: loaded');
+        assert.deepEqual(this.modelCalls, [['1', 2]], 'the model of page 2 was loaded');
+
+        this.addTemplate(
+          'about',
+          `<LinkTo @route='posts.post' @model='1' @query={{hash page=2}} @prefetch='eager'>Page 2</LinkTo>`
+        );
+
+        await this.visit('/about');
+        await this.visit('/posts/1?page=2');
+
+        this.assertText('1: prefetched');
+        assert.deepEqual(this.modelCalls, [['1', 2]], 'the model of page 2 was prefetched');
+      }
+
+      async ['@test prefetched data is discarded after the next transition'](assert) {
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model='1' @prefetch='eager'>Post</LinkTo>`
+        );
+
+        await this.visit('/');
+        await this.visit('/about');
+        await this.visit('/posts/1');
+
+        this.assertText('1: loaded');
+        assert.deepEqual(this.modelCalls, ['1']);
+      }
+
+      async ['@test the model hook is called when prefetching fails']() {
+        this.add(
+          'route:posts.post',
+          Route.extend({
+            prefetch() {
+              return RSVP.reject(new Error('offline'));
+            },
+
+            model(params) {
+              return { id: params.post_id };
+            },
+          })
+        );
+
+        this.addTemplate(
+          'index',
+          `<LinkTo @route='posts.post' @model='1' @prefetch='eager'>Post</LinkTo>`
+        );
+
+        await this.visit('/');
+        await this.visit('/posts/1');
+
+        this.assertText('1: loaded');
+      }
+    }
+  );
+}
@@ -0,0 +1,171 @@
+import { moduleFor, RenderingTestCase, runTask } from 'internal-test-helpers';
+
+import { EMBER_GLIMMER_RENDER_PRIORITIES } from '@ember/canary-features';
+import { renderSettled } from '@ember/-internals/glimmer';
+import { set } from '@ember/-internals/metal';
+
+import { resolve } from 'rsvp';
+
+import { Component, compile } from '../utils/helpers';
+
+if (EMBER_GLIMMER_RENDER_PRIORITIES) {
+  moduleFor(
+    'Render priorities',
+    class extends RenderingTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.components = [];
+        this.frames = [];
+        this.renders = [];
+
+        window.requestIdleCallback = callback => this.frames.push(callback);
+
+        let test = this;
+
+        this.registerComponent('x-value', {
+          ComponentClass: Component.extend({
+            layout: compile('{{this.model.value}}'),
+
+            willRender() {
+              test.renders.push(this.name);
+            },
+          }),
+        });
+
+        this.model = { value: 'one' };
+      }
+
+      teardown() {
+        runTask(() => this.components.forEach(component => component.destroy()));
+        delete window.requestIdleCallback;
+
+        super.teardown();
+      }
+
+      create(name, renderPriority, factoryName = 'component:x-value') {
+        let component = this.owner
+          .factoryFor(factoryName)
+          .create({ name, renderPriority, model: this.model });
+        let element = document.createElement('div');
+
+        document.querySelector('#qunit-fixture').appendChild(element);
+        this.components.push(component);
+
+        return { component, element };
+      }
+
+      append(name, renderPriority, factoryName) {
+        let { component, element } = this.create(name, renderPriority, factoryName);
+
+        runTask(() => component.appendTo(element));
+
+        return element;
+      }
+
+      runFrame(timeRemaining = 10) {
+        let frames = this.frames.splice(0);
+
+        frames.forEach(frame => frame({ timeRemaining: () => timeRemaining }));
+      }
+
+      ['@test idle roots are rendered right away the first time'](assert) {
+        let element = this.append('idle', 'idle');
+
+        assert.equal(element.textContent, 'one');
+        assert.deepEqual(this.frames, []);
+      }
+
+      ['@test idle roots are revalidated in the idle periods that follow'](assert) {
+        let normal = this.append('normal', 'normal');
+        let idle = this.append('idle', 'idle');
+        let isSettled = false;
+
+        runTask(() => {
+          set(this.model, 'value', 'two');
+          renderSettled().then(() => (isSettled = true));
+        });
+
+        assert.equal(normal.textContent, 'two');
+        assert.equal(idle.textContent, 'one', 'the idle root is not revalidated yet');
+        assert.equal(this.frames.length, 1, 'an idle period is requested');
+
+        return resolve()
+          .then(() => {
+            assert.notOk(isSettled, 'rendering is not settled before the idle root is rendered');
+
+            this.runFrame();
+
+            assert.equal(idle.textContent, 'two');
+            assert.deepEqual(this.frames, []);
+
+            return renderSettled();
+          })
+          .then(() => {
+            assert.ok(isSettled);
+          });
+      }
+
+      ['@test idle roots are revalidated for as long as there is time left'](assert) {
+        let first = this.append('first', 'idle');
+        let second = this.append('second', 'idle');
+
+        runTask(() => set(this.model, 'value', 'two'));
+
+        this.runFrame(0);
+
+        assert.equal(first.textContent, 'one');
+        assert.equal(second.textContent, 'one');
+        assert.equal(this.frames.length, 1, 'another idle period is requested');
+
+        this.runFrame();
+
+        assert.equal(first.textContent, 'two');
+        assert.equal(second.textContent, 'two');
+        assert.deepEqual(this.frames, []);
+      }
+
+      ['@test user-blocking roots are revalidated before the others'](assert) {
+        this.append('normal', 'normal');
+        this.append('user-blocking', 'user-blocking');
+
+        this.renders = [];
+        runTask(() => set(this.model, 'value', 'two'));
+
+        assert.deepEqual(this.renders, ['user-blocking', 'normal']);
+      }
+
+      ['@test the roots appended while rendering are revalidated in order too'](assert) {
+        let test = this;
+
+        this.registerComponent('x-parent', {
+          ComponentClass: Component.extend({
+            layout: compile('{{this.model.value}}'),
+
+            willRender() {
+              test.renders.push(this.name);
+            },
+
+            didInsertElement() {
+              let { component, element } = test.create('user-blocking', 'user-blocking');
+              component.appendTo(element);
+            },
+          }),
+        });
+
+        this.append('normal', 'normal', 'component:x-parent');
+
+        this.renders = [];
+        runTask(() => set(this.model, 'value', 'two'));
+
+        assert.deepEqual(this.renders, ['user-blocking', 'normal']);
+      }
+
+      ['@test the priority has to be known']() {
+        expectAssertion(() => {
+          this.append('unknown', 'soon');
+        }, "The `renderPriority` of a view has to be 'user-blocking', 'normal' or 'idle', not 'soon'");
+      }
+    }
+  );
+}
@@ -0,0 +1,227 @@
+import { moduleFor, RenderingTestCase, runTask } from 'internal-test-helpers';
+
+import { EMBER_GLIMMER_RENDER_PROFILER } from '@ember/canary-features';
+import {
+  capabilities,
+  setComponentManager,
+  startRenderProfile,
+  stopRenderProfile,
+} from '@ember/-internals/glimmer';
+import { set } from '@ember/-internals/metal';
+import { Object as EmberObject } from '@ember/-internals/runtime';
+
+import { Component } from '../utils/helpers';
+
+function counts(nodes) {
+  return nodes.map(({ name, creates, updates, children }) => ({
+    name,
+    creates,
+    updates,
+    children: counts(children),
+  }));
+}
+
+if (EMBER_GLIMMER_RENDER_PROFILER) {
+  moduleFor(
+    'Render profile',
+    class extends RenderingTestCase {
+      teardown() {
+        try {
+          stopRenderProfile();
+        } catch (error) {
+          // the test already stopped its profile
+        }
+
+        super.teardown();
+      }
+
+      ['@test it records the components that are created as a tree'](assert) {
+        this.registerComponent('x-list', { template: '<ul>{{yield}}</ul>' });
+        this.registerComponent('x-item', {
+          ComponentClass: Component.extend({ tagName: 'li' }),
+          template: '{{this.value}}',
+        });
+
+        startRenderProfile();
+
+        this.render('{{#x-list}}{{x-item value="one"}}{{x-item value="two"}}{{/x-list}}');
+
+        let profile = stopRenderProfile();
+
+        this.assertText('onetwo');
+        assert.equal(profile.rootRenders, 1);
+        assert.deepEqual(counts(profile.components), [
+          {
+            name: '-top-level',
+            creates: 1,
+            updates: 0,
+            children: [
+              {
+                name: 'x-list',
+                creates: 1,
+                updates: 0,
+                children: [{ name: 'x-item', creates: 2, updates: 0, children: [] }],
+              },
+            ],
+          },
+        ]);
+      }
+
+      ['@test it records the components that are updated'](assert) {
+        this.registerComponent('x-parent', { template: '{{x-child value=this.value}}' });
+        this.registerComponent('x-child', { template: '{{this.value}}' });
+        this.registerComponent('x-static', { template: 'static' });
+
+        this.render('{{x-parent value=this.value}}{{x-static}}', { value: 'one' });
+
+        startRenderProfile();
+
+        runTask(() => set(this.context, 'value', 'two'));
+
+        let profile = stopRenderProfile();
+
+        this.assertText('twostatic');
+        assert.equal(profile.rootRenders, 1);
+        assert.deepEqual(counts(profile.components), [
+          {
+            name: '-top-level',
+            creates: 0,
+            updates: 1,
+            children: [
+              {
+                name: 'x-parent',
+                creates: 0,
+                updates: 1,
+                children: [{ name: 'x-child', creates: 0, updates: 1, children: [] }],
+              },
+            ],
+          },
+        ]);
+      }
+
+      ['@test the components updated on the way to a changed component are not counted'](assert) {
+        this.registerComponent('x-parent', { template: '{{x-child value=this.model.value}}' });
+        this.registerComponent('x-child', { template: '{{this.value}}' });
+
+        this.render('{{x-parent model=this.model}}', { model: { value: 'one' } });
+
+        startRenderProfile();
+
+        runTask(() => set(this.context.model, 'value', 'two'));
+
+        let profile = stopRenderProfile();
+
+        this.assertText('two');
+        assert.deepEqual(counts(profile.components), [
+          {
+            name: '-top-level',
+            creates: 0,
+            updates: 0,
+            children: [
+              {
+                name: 'x-parent',
+                creates: 0,
+                updates: 0,
+                children: [{ name: 'x-child', creates: 0, updates: 1, children: [] }],
+              },
+            ],
+          },
+        ]);
+      }
+
+      ['@test it records the time spent in each component'](assert) {
+        this.registerComponent('x-parent', { template: '{{x-child}}' });
+        this.registerComponent('x-child', { template: 'child' });
+
+        startRenderProfile();
+
+        this.render('{{x-parent}}');
+
+        let profile = stopRenderProfile();
+        let [root] = profile.components;
+        let [parent] = root.children;
+        let [child] = parent.children;
+
+        assert.ok(profile.duration >= root.totalTime);
+        assert.ok(parent.totalTime >= parent.selfTime);
+        assert.equal(child.selfTime, child.totalTime);
+        assert.equal(
+          Math.round((parent.totalTime - parent.selfTime) * 1000),
+          Math.round(child.totalTime * 1000),
+          'the self time does not include the children'
+        );
+        assert.deepEqual(JSON.parse(JSON.stringify(profile)), profile, 'the profile is JSON');
+      }
+
+      ['@test it records the components of custom component managers'](assert) {
+        let ComponentClass = setComponentManager(
+          () =>
+            EmberObject.create({
+              capabilities: capabilities('3.4'),
+
+              createComponent(factory, args) {
+                return factory.create({ args });
+              },
+
+              updateComponent(component, args) {
+                set(component, 'args', args);
+              },
+
+              getContext(component) {
+                return component;
+              },
+            }),
+          EmberObject.extend()
+        );
+
+        this.registerComponent('x-custom', {
+          template: '{{this.args.named.value}} {{x-child}}',
+          ComponentClass,
+        });
+        this.registerComponent('x-child', { template: 'child' });
+
+        startRenderProfile();
+
+        this.render('{{x-custom value=this.value}}', { value: 'one' });
+        runTask(() => set(this.context, 'value', 'two'));
+
+        let profile = stopRenderProfile();
+
+        this.assertText('two child');
+        assert.equal(profile.rootRenders, 2);
+        assert.deepEqual(counts(profile.components[0].children), [
+          {
+            name: 'x-custom',
+            creates: 1,
+            updates: 1,
+            children: [{ name: 'x-child', creates: 1, updates: 0, children: [] }],
+          },
+        ]);
+      }
+
+      ['@test nothing is recorded without a profile'](assert) {
+        this.registerComponent('x-child', { template: 'child' });
+
+        this.render('{{x-child}}');
+
+        startRenderProfile();
+
+        assert.deepEqual(stopRenderProfile().components, []);
+      }
+
+      ['@test a profile has to be started to be stopped'](assert) {
+        assert.throws(() => {
+          stopRenderProfile();
+        }, /No render profile has been started, call `startRenderProfile\(\)` first/);
+      }
+
+      ['@test a profile cannot be started twice']() {
+        startRenderProfile();
+
+        expectAssertion(() => {
+          startRenderProfile();
+        }, 'A render profile has already been started, call `stopRenderProfile()` first');
+      }
+    }
+  );
+}
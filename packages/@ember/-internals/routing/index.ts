@@ -3,8 +3,10 @@ import './lib/ext/controller';
 
 export { default as Location } from './lib/location/api';
 export { default as NoneLocation } from './lib/location/none_location';
+export { default as MemoryLocation } from './lib/location/memory_location';
 export { default as HashLocation } from './lib/location/hash_location';
 export { default as HistoryLocation } from './lib/location/history_location';
+export { default as NavigationLocation } from './lib/location/navigation_location';
 export { default as AutoLocation } from './lib/location/auto_location';
 
 export {
@@ -11,6 +11,7 @@ export interface EmberLocation {
   formatURL(url: string): string;
   detect?(): void;
   initState?(): void;
+  afterTransition?(): void;
 }
 
 export type UpdateCallback = (url: string) => void;
@@ -24,12 +25,14 @@ export type UpdateCallback = (url: string) => void;
 
   ## Implementations
 
-  You can pass an implementation name (`hash`, `history`, `none`, `auto`) to force a
-  particular implementation to be used in your application.
+  You can pass an implementation name (`hash`, `history`, `navigation`, `memory`, `none`,
+  `auto`) to force a particular implementation to be used in your application.
 
   See [HashLocation](/ember/release/classes/HashLocation).
   See [HistoryLocation](/ember/release/classes/HistoryLocation).
+  See [NavigationLocation](/ember/release/classes/NavigationLocation).
   See [NoneLocation](/ember/release/classes/NoneLocation).
+  See [MemoryLocation](/ember/release/classes/MemoryLocation).
   See [AutoLocation](/ember/release/classes/AutoLocation).
 
   ## Location API
@@ -46,6 +49,8 @@ export type UpdateCallback = (url: string) => void;
       necessary. If the location needs to redirect to a different URL, it
       can cancel routing by setting the `cancelRouterSetup` property on itself
       to `false`.
+  * afterTransition() (optional): called once a transition has settled and its
+      destination has rendered, for example to restore the scroll position.
 
   Calling setURL or replaceURL will not trigger onUpdateURL callbacks.
 
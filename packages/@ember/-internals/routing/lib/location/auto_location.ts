@@ -3,9 +3,14 @@ import { get, set } from '@ember/-internals/metal';
 import { getOwner } from '@ember/-internals/owner';
 import { Object as EmberObject } from '@ember/-internals/runtime';
 import { tryInvoke } from '@ember/-internals/utils';
+import {
+  EMBER_ROUTING_HASH_FORMATS,
+  EMBER_ROUTING_NAVIGATION_LOCATION,
+} from '@ember/canary-features';
 import { assert } from '@ember/debug';
 
 import { EmberLocation, UpdateCallback } from './api';
+import { HashFormat } from './hash_location';
 import {
   getFullPath,
   getHash,
@@ -14,6 +19,7 @@ import {
   replacePath,
   supportsHashChange,
   supportsHistory,
+  supportsNavigation,
 } from './util';
 
 /**
@@ -22,7 +28,9 @@ import {
 
 /**
   AutoLocation will select the best location option based off browser
-  support with the priority order: history, hash, none.
+  support with the priority order: history, hash, none. Behind the
+  `ember-routing-navigation-location` feature flag, browsers that support the
+  Navigation API use `NavigationLocation` before history.
 
   Clean pushState paths accessed by hashchange-only browsers will be redirected
   to the hash-equivalent and vice versa so future transitions are consistent.
@@ -93,6 +101,7 @@ export default class AutoLocation extends EmberObject implements EmberLocation {
       rootURL,
       documentMode: this.documentMode,
       global: this.global,
+      hashFormat: EMBER_ROUTING_HASH_FORMATS ? getOwner(this).lookup('location:hash') : undefined,
     });
 
     if (implementation === false) {
@@ -134,6 +143,7 @@ AutoLocation.reopen({
   replaceURL: delegateToConcreteImplementation('replaceURL'),
   onUpdateURL: delegateToConcreteImplementation('onUpdateURL'),
   formatURL: delegateToConcreteImplementation('formatURL'),
+  afterTransition: delegateToConcreteImplementation('afterTransition'),
 
   /**
     @private
@@ -226,31 +236,37 @@ interface DetectionOptions {
   rootURL: string;
   documentMode: number | undefined;
   global: Window | null;
+  hashFormat: HashFormat | undefined;
 }
 
 function detectImplementation(options: DetectionOptions) {
-  let { location, userAgent, history, documentMode, global, rootURL } = options;
+  let { location, userAgent, history, documentMode, global, rootURL, hashFormat } = options;
 
   let implementation = 'none';
   let cancelRouterSetup = false;
   let currentPath = getFullPath(location!);
 
   if (supportsHistory(userAgent, history!)) {
-    let historyPath = getHistoryPath(rootURL, location!);
+    let historyPath = getHistoryPath(rootURL, location!, hashFormat);
+
+    // Browsers that support the Navigation API use the same URLs as the
+    // history location, but can also intercept plain link clicks.
+    let historyImplementation =
+      EMBER_ROUTING_NAVIGATION_LOCATION && supportsNavigation(global) ? 'navigation' : 'history';
 
     // If the browser supports history and we have a history path, we can use
     // the history location with no redirects.
     if (currentPath === historyPath) {
-      implementation = 'history';
+      implementation = historyImplementation;
     } else if (currentPath.substr(0, 2) === '/#') {
       history!.replaceState({ path: historyPath }, '', historyPath);
-      implementation = 'history';
+      implementation = historyImplementation;
     } else {
       cancelRouterSetup = true;
       replacePath(location!, historyPath);
     }
   } else if (supportsHashChange(documentMode, global)) {
-    let hashPath = getHashPath(rootURL, location!);
+    let hashPath = getHashPath(rootURL, location!, hashFormat);
 
     // Be sure we're using a hashed path, otherwise let's switch over it to so
     // we start off clean and consistent. We'll count an index path with no
@@ -279,7 +295,7 @@ function detectImplementation(options: DetectionOptions) {
   browsers. This may very well differ from the real current path (e.g. if it
   starts off as a hashed URL)
 */
-export function getHistoryPath(rootURL: string, location: Location) {
+export function getHistoryPath(rootURL: string, location: Location, hashFormat?: HashFormat) {
   let path = getPath(location);
   let hash = getHash(location);
   let query = getQuery(location);
@@ -288,12 +304,18 @@ export function getHistoryPath(rootURL: string, location: Location) {
 
   assert(`Path ${path} does not start with the provided rootURL ${rootURL}`, rootURLIndex === 0);
 
+  let hashPath: string | null = hash.substr(1);
+
+  if (EMBER_ROUTING_HASH_FORMATS && hashFormat !== undefined && hash !== '') {
+    hashPath = hashFormat.decodeHash(hashPath);
+  }
+
   // By convention, Ember.js routes using HashLocation are required to start
   // with `#/`. Anything else should NOT be considered a route and should
   // be passed straight through, without transformation.
-  if (hash.substr(0, 2) === '#/') {
+  if (hashPath !== null && hashPath[0] === '/') {
     // There could be extra hash segments after the route
-    hashParts = hash.substr(1).split('#');
+    hashParts = hashPath.split('#');
     // The first one is always the route url
     routeHash = hashParts.shift();
 
@@ -324,9 +346,9 @@ export function getHistoryPath(rootURL: string, location: Location) {
 
   @method _getHashPath
 */
-export function getHashPath(rootURL: string, location: Location) {
+export function getHashPath(rootURL: string, location: Location, hashFormat?: HashFormat) {
   let path = rootURL;
-  let historyPath = getHistoryPath(rootURL, location);
+  let historyPath = getHistoryPath(rootURL, location, hashFormat);
   let routePath = historyPath.substr(rootURL.length);
 
   if (routePath !== '') {
@@ -334,6 +356,10 @@ export function getHashPath(rootURL: string, location: Location) {
       routePath = `/${routePath}`;
     }
 
+    if (EMBER_ROUTING_HASH_FORMATS && hashFormat !== undefined) {
+      routePath = hashFormat.encodeHash(routePath);
+    }
+
     path += `#${routePath}`;
   }
 
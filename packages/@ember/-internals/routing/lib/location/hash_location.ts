@@ -2,6 +2,7 @@ import { get, set } from '@ember/-internals/metal';
 import { bind } from '@ember/runloop';
 
 import { Object as EmberObject } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_HASH_FORMATS } from '@ember/canary-features';
 import { EmberLocation, UpdateCallback } from './api';
 import { getHash } from './util';
 
@@ -33,13 +34,32 @@ import { getHash } from './util';
 
   This will result in a posts.new url of `/#/posts/new`.
 
+  Behind the `ember-routing-hash-formats` feature flag, the format of the hash
+  can be changed with the `hashPrefix` property, or with the `encodeHash` and
+  `decodeHash` hooks. Registering the location as `location:hash` makes
+  `AutoLocation` use the same format:
+
+  ```app/locations/hash.js
+  import HashLocation from '@ember/routing/hash-location';
+
+  export default HashLocation.extend({
+    hashPrefix: '!'
+  });
+  ```
+
+  This will result in a posts.new url of `/#!/posts/new`.
+
   @class HashLocation
   @extends EmberObject
   @protected
 */
-export default class HashLocation extends EmberObject implements EmberLocation {
+export default class HashLocation extends EmberObject implements EmberLocation, HashFormat {
   implementation = 'hash';
 
+  hashPrefix!: string;
+  encodeHash!: (path: string) => string;
+  decodeHash!: (hash: string) => string | null;
+
   init() {
     set(this, 'location', get(this, '_location') || window.location);
 
@@ -71,9 +91,13 @@ export default class HashLocation extends EmberObject implements EmberLocation {
   */
   getURL() {
     let originalPath = this.getHash().substr(1);
-    let outPath = originalPath;
+    let outPath: string | null = originalPath;
 
-    if (outPath[0] !== '/') {
+    if (EMBER_ROUTING_HASH_FORMATS) {
+      outPath = this.decodeHash(originalPath);
+    }
+
+    if (outPath === null || outPath[0] !== '/') {
       outPath = '/';
 
       // Only add the # if the path isn't empty.
@@ -98,7 +122,7 @@ export default class HashLocation extends EmberObject implements EmberLocation {
     @param path {String}
   */
   setURL(path: string) {
-    get(this, 'location').hash = path;
+    get(this, 'location').hash = EMBER_ROUTING_HASH_FORMATS ? this.encodeHash(path) : path;
     set(this, 'lastSetURL', path);
   }
 
@@ -111,7 +135,8 @@ export default class HashLocation extends EmberObject implements EmberLocation {
     @param path {String}
   */
   replaceURL(path: string) {
-    get(this, 'location').replace(`#${path}`);
+    let hash = EMBER_ROUTING_HASH_FORMATS ? this.encodeHash(path) : path;
+    get(this, 'location').replace(`#${hash}`);
     set(this, 'lastSetURL', path);
   }
 
@@ -152,7 +177,7 @@ export default class HashLocation extends EmberObject implements EmberLocation {
     @param url {String}
   */
   formatURL(url: string) {
-    return `#${url}`;
+    return `#${EMBER_ROUTING_HASH_FORMATS ? this.encodeHash(url) : url}`;
   }
 
   /**
@@ -171,3 +196,55 @@ export default class HashLocation extends EmberObject implements EmberLocation {
     }
   }
 }
+
+export interface HashFormat {
+  encodeHash(path: string): string;
+  decodeHash(hash: string): string | null;
+}
+
+if (EMBER_ROUTING_HASH_FORMATS) {
+  HashLocation.reopen({
+    /**
+      The prefix of the hash, between the `#` and the path. A prefix of `'!'`
+      results in URLs like `/#!/posts/new`.
+
+      @property hashPrefix
+      @type String
+      @default ''
+      @category EMBER_ROUTING_HASH_FORMATS
+      @public
+    */
+    hashPrefix: '',
+
+    /**
+      Returns the hash, without the `#`, in which the given path is stored.
+      By default the path is prefixed with `hashPrefix`.
+
+      @method encodeHash
+      @param {String} path the path of the URL
+      @return {String} the hash
+      @category EMBER_ROUTING_HASH_FORMATS
+      @public
+    */
+    encodeHash(this: HashLocation, path: string) {
+      return `${this.hashPrefix}${path}`;
+    },
+
+    /**
+      Returns the path stored in the given hash, without the `#`, or `null`
+      when the hash is not in the format of the location, in which case it is
+      not considered a path. The returned path must begin with a forward slash.
+      By default `hashPrefix` is removed from the hash.
+
+      @method decodeHash
+      @param {String} hash the hash
+      @return {String|null} the path of the URL
+      @category EMBER_ROUTING_HASH_FORMATS
+      @public
+    */
+    decodeHash(this: HashLocation, hash: string) {
+      let prefix = this.hashPrefix;
+      return hash.substr(0, prefix.length) === prefix ? hash.substr(prefix.length) : null;
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { get, set } from '@ember/-internals/metal';
 
 import { Object as EmberObject } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_SCROLL_RESTORATION } from '@ember/canary-features';
 import { EmberLocation, UpdateCallback } from './api';
 import { getHash } from './util';
 
@@ -10,6 +11,11 @@ import { getHash } from './util';
 
 let popstateFired = false;
 
+interface ScrollPosition {
+  x: number;
+  y: number;
+}
+
 function _uuid() {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
     let r, v;
@@ -45,6 +51,25 @@ function _uuid() {
   Keep in mind that your server must serve the Ember app at all the routes you
   define.
 
+  By default the application is responsible for the scroll position when the
+  URL changes. Setting `scrollRestoration` to `'auto'` makes `HistoryLocation`
+  scroll to the top when a new URL is visited, and restore the position a URL
+  was left at when going back or forward to it. `'top'` always scrolls to the
+  top. The page itself is scrolled unless `scrollElement` is set to the
+  selector of the element that scrolls instead.
+
+  ```app/locations/history.js
+  import HistoryLocation from '@ember/routing/history-location';
+
+  export default HistoryLocation.extend({
+    scrollRestoration: 'auto',
+    scrollElement: '#main'
+  });
+  ```
+
+  Scroll restoration is only available behind the
+  `ember-routing-scroll-restoration` feature flag.
+
   @class HistoryLocation
   @extends EmberObject
   @protected
@@ -60,6 +85,10 @@ export default class HistoryLocation extends EmberObject implements EmberLocatio
     @private
   */
   rootURL = '/';
+
+  scrollRestoration!: 'auto' | 'top' | 'manual';
+  scrollElement!: string | null;
+
   /**
     @private
 
@@ -84,6 +113,8 @@ export default class HistoryLocation extends EmberObject implements EmberLocatio
     set(this, 'location', get(this, 'location') || window.location);
 
     this._popstateHandler = undefined;
+    this._scrollPositions = new Map<string, ScrollPosition>();
+    this._pendingScrollPosition = undefined;
   }
 
   /**
@@ -106,9 +137,19 @@ export default class HistoryLocation extends EmberObject implements EmberLocatio
       // preserve existing state
       // used for webkit workaround, since there will be no initial popstate event
       this._previousURL = this.getURL();
+      this._currentStateId = state.uuid;
     } else {
       this.replaceState(path);
     }
+
+    if (EMBER_ROUTING_SCROLL_RESTORATION && this.scrollRestoration !== 'manual') {
+      // Keep the browser from restoring the position before the destination
+      // has rendered.
+      if ('scrollRestoration' in history) {
+        this._browserScrollRestoration = history.scrollRestoration;
+        history.scrollRestoration = 'manual';
+      }
+    }
   }
 
   /**
@@ -206,9 +247,15 @@ export default class HistoryLocation extends EmberObject implements EmberLocatio
   pushState(path: string) {
     let state = { path, uuid: _uuid() };
 
+    if (EMBER_ROUTING_SCROLL_RESTORATION && this.scrollRestoration !== 'manual') {
+      this._saveScrollPosition();
+      this._pendingScrollPosition = { x: 0, y: 0 };
+    }
+
     get(this, 'history').pushState(state, null, path);
 
     this._historyState = state;
+    this._currentStateId = state.uuid;
 
     // used for webkit workaround
     this._previousURL = this.getURL();
@@ -227,6 +274,7 @@ export default class HistoryLocation extends EmberObject implements EmberLocatio
     get(this, 'history').replaceState(state, null, path);
 
     this._historyState = state;
+    this._currentStateId = state.uuid;
 
     // used for webkit workaround
     this._previousURL = this.getURL();
@@ -251,6 +299,18 @@ export default class HistoryLocation extends EmberObject implements EmberLocatio
           return;
         }
       }
+
+      if (EMBER_ROUTING_SCROLL_RESTORATION && this.scrollRestoration !== 'manual') {
+        this._saveScrollPosition();
+
+        let state = this.getState();
+        this._currentStateId = state ? state.uuid : undefined;
+
+        let position = state && this._scrollPositions.get(state.uuid);
+        this._pendingScrollPosition =
+          this.scrollRestoration === 'auto' && position ? position : { x: 0, y: 0 };
+      }
+
       callback(this.getURL());
     };
 
@@ -290,6 +350,73 @@ export default class HistoryLocation extends EmberObject implements EmberLocatio
   */
   willDestroy() {
     this._removeEventListener();
+
+    if (EMBER_ROUTING_SCROLL_RESTORATION && this._browserScrollRestoration !== undefined) {
+      get(this, 'history').scrollRestoration = this._browserScrollRestoration;
+    }
+  }
+
+  /**
+    Called by the router once a transition has settled and its destination
+    has rendered. Restores the scroll position for the URL that was entered.
+
+    @private
+    @method afterTransition
+  */
+  afterTransition() {
+    if (!EMBER_ROUTING_SCROLL_RESTORATION) {
+      return;
+    }
+
+    let position = this._pendingScrollPosition;
+    this._pendingScrollPosition = undefined;
+
+    if (position === undefined) {
+      return;
+    }
+
+    let element = this._getScrollElement();
+    if (element === null) {
+      return;
+    } else if (element === window) {
+      window.scrollTo(position.x, position.y);
+    } else {
+      (element as Element).scrollLeft = position.x;
+      (element as Element).scrollTop = position.y;
+    }
+  }
+
+  /**
+    Records the scroll position of the current state, so it can be restored
+    when the user navigates back to it.
+
+    @private
+    @method _saveScrollPosition
+  */
+  _saveScrollPosition() {
+    let uuid = this._currentStateId;
+    let element = this._getScrollElement();
+
+    if (uuid === undefined || element === null) {
+      return;
+    }
+
+    let position: ScrollPosition =
+      element === window
+        ? { x: window.pageXOffset, y: window.pageYOffset }
+        : { x: (element as Element).scrollLeft, y: (element as Element).scrollTop };
+
+    this._scrollPositions.set(uuid, position);
+  }
+
+  _getScrollElement(): Element | Window | null {
+    let selector = this.scrollElement;
+
+    if (selector === null) {
+      return window;
+    }
+
+    return document.querySelector(selector);
   }
 
   _removeEventListener() {
@@ -298,3 +425,30 @@ export default class HistoryLocation extends EmberObject implements EmberLocatio
     }
   }
 }
+
+if (EMBER_ROUTING_SCROLL_RESTORATION) {
+  HistoryLocation.reopen({
+    /**
+      How the scroll position is handled when the URL changes, one of `'manual'`
+      (left to the application), `'auto'` (restored when going back or forward,
+      reset otherwise) or `'top'` (always reset).
+
+      @property scrollRestoration
+      @default 'manual'
+      @category EMBER_ROUTING_SCROLL_RESTORATION
+      @public
+    */
+    scrollRestoration: 'manual',
+
+    /**
+      The selector of the element whose scroll position is restored, or `null`
+      for the page itself.
+
+      @property scrollElement
+      @default null
+      @category EMBER_ROUTING_SCROLL_RESTORATION
+      @public
+    */
+    scrollElement: null,
+  });
+}
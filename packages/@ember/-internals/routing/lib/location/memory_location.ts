@@ -0,0 +1,174 @@
+import { get, set } from '@ember/-internals/metal';
+import { DEBUG } from '@glimmer/env';
+import NoneLocation from './none_location';
+
+/**
+@module @ember/routing
+*/
+
+/**
+  MemoryLocation keeps the URLs the application has visited in an in-memory
+  history stack instead of the browser's history. Like `NoneLocation` it does
+  not interact with the browser, but it can go back and forward through the
+  stack, notifying the router the way the browser's back and forward buttons
+  would.
+
+  This makes it possible to exercise back button behavior in tests and when
+  rendering on the server:
+
+  ```javascript
+  let instance = await application.visit('/posts', { location: 'memory' });
+  let location = instance.lookup('router:main').location;
+
+  await instance.visit('/posts/1');
+  location.back();
+  ```
+
+  `MemoryLocation` is only available behind the
+  `ember-routing-memory-location` feature flag.
+
+  @class MemoryLocation
+  @extends NoneLocation
+  @protected
+*/
+export default class MemoryLocation extends NoneLocation {
+  static create: (props?: { path?: string; rootURL?: string }) => MemoryLocation;
+
+  implementation = 'memory';
+
+  /**
+    The URLs in the history stack, oldest first.
+
+    @property entries
+    @type Array
+    @category EMBER_ROUTING_MEMORY_LOCATION
+    @public
+  */
+  entries!: string[];
+
+  /**
+    The position of the current URL in `entries`.
+
+    @property index
+    @type Number
+    @category EMBER_ROUTING_MEMORY_LOCATION
+    @public
+  */
+  index!: number;
+
+  init() {
+    this._super(...arguments);
+
+    let path = get(this, 'path');
+
+    if (path === '') {
+      this._updateEntries([], -1);
+    } else {
+      this._updateEntries([path], 0);
+    }
+  }
+
+  /**
+    Pushes a new entry onto the history stack, discarding the entries after
+    the current one. Using this method to change the path will not invoke the
+    `updateURL` callback.
+
+    @private
+    @method setURL
+    @param path {String}
+  */
+  setURL(path: string) {
+    if (path === this.entries[this.index]) {
+      return;
+    }
+
+    this._updateEntries(this.entries.slice(0, this.index + 1).concat(path), this.index + 1);
+  }
+
+  /**
+    Replaces the current entry of the history stack. Using this method to
+    change the path will not invoke the `updateURL` callback.
+
+    @private
+    @method replaceURL
+    @param path {String}
+  */
+  replaceURL(path: string) {
+    let entries = this.entries.slice();
+    let index = Math.max(this.index, 0);
+
+    entries[index] = path;
+
+    this._updateEntries(entries, index);
+  }
+
+  /**
+    Pushes a new entry onto the history stack and calls the `updateURL`
+    callback, as if the user followed a link.
+
+    @private
+    @method handleURL
+    @param url {String}
+  */
+  handleURL(url: string) {
+    this.setURL(url);
+    this.updateCallback(url);
+  }
+
+  /**
+    Goes back one entry in the history stack, like the browser's back button.
+
+    @method back
+    @category EMBER_ROUTING_MEMORY_LOCATION
+    @public
+  */
+  back() {
+    this.go(-1);
+  }
+
+  /**
+    Goes forward one entry in the history stack, like the browser's forward
+    button.
+
+    @method forward
+    @category EMBER_ROUTING_MEMORY_LOCATION
+    @public
+  */
+  forward() {
+    this.go(1);
+  }
+
+  /**
+    Moves `delta` entries through the history stack and calls the `updateURL`
+    callback with the URL of the new current entry. Moving outside of the
+    stack does nothing, like it does in the browser.
+
+    @method go
+    @param {Number} delta
+    @category EMBER_ROUTING_MEMORY_LOCATION
+    @public
+  */
+  go(delta: number) {
+    let index = this.index + delta;
+
+    if (delta === 0 || index < 0 || index >= this.entries.length) {
+      return;
+    }
+
+    this._updateEntries(this.entries, index);
+
+    if (this.updateCallback) {
+      this.updateCallback(this.getURL());
+    }
+  }
+
+  _updateEntries(entries: string[], index: number) {
+    if (DEBUG) {
+      Object.freeze(entries);
+    }
+
+    set(this, 'entries', entries);
+    set(this, 'index', index);
+    set(this, 'path', index === -1 ? '' : entries[index]);
+  }
+}
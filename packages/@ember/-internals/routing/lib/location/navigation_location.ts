@@ -0,0 +1,262 @@
+import { get, set } from '@ember/-internals/metal';
+
+import { Object as EmberObject } from '@ember/-internals/runtime';
+import { EmberLocation, UpdateCallback } from './api';
+
+/**
+@module @ember/routing
+*/
+
+interface NavigationHistoryEntry {
+  url: string | null;
+}
+
+interface NavigationResult {
+  committed: Promise<unknown>;
+  finished: Promise<unknown>;
+}
+
+interface NavigateEvent extends Event {
+  navigationType: 'push' | 'replace' | 'reload' | 'traverse';
+  destination: { url: string };
+  canIntercept: boolean;
+  hashChange: boolean;
+  downloadRequest: string | null;
+  formData: FormData | null;
+  info: unknown;
+  intercept(options?: { handler?(): void | Promise<void> }): void;
+}
+
+interface Navigation extends EventTarget {
+  currentEntry: NavigationHistoryEntry | null;
+  navigate(
+    url: string,
+    options?: { history?: 'push' | 'replace'; info?: unknown }
+  ): NavigationResult;
+}
+
+/**
+  NavigationLocation implements the location API using the browser's
+  [Navigation API](https://developer.mozilla.org/en-US/docs/Web/API/Navigation_API).
+
+  Like `HistoryLocation` it results in URLs that are indistinguishable from a
+  standard URL, but it also intercepts every other same-origin navigation to a
+  URL within the application, including plain `<a href>` clicks and the back
+  and forward buttons, and hands it to the router instead of loading a new
+  page. Navigations that download a file, submit a form, only change the hash
+  or reload the page are left to the browser.
+
+  Example:
+
+  ```app/router.js
+  Router.map(function() {
+    this.route('posts', function() {
+      this.route('new');
+    });
+  });
+
+  Router.reopen({
+    location: 'navigation'
+  });
+  ```
+
+  This will result in a posts.new url of `/posts/new`.
+
+  Keep in mind that your server must serve the Ember app at all the routes you
+  define.
+
+  `NavigationLocation` is only available behind the
+  `ember-routing-navigation-location` feature flag.
+
+  @class NavigationLocation
+  @extends EmberObject
+  @protected
+*/
+export default class NavigationLocation extends EmberObject implements EmberLocation {
+  implementation = 'navigation';
+
+  navigation!: Navigation;
+
+  init() {
+    this._super(...arguments);
+
+    let base = document.querySelector('base');
+    let baseURL: string | null = '';
+    if (base) {
+      baseURL = base.getAttribute('href');
+    }
+
+    set(this, 'baseURL', baseURL);
+    set(this, 'navigation', get(this, 'navigation') || (window as any).navigation);
+
+    this._navigateHandler = undefined;
+  }
+
+  /**
+    Returns the URL of the current entry without `rootURL` or `baseURL`.
+
+    @private
+    @method getURL
+    @return url {String}
+  */
+  getURL() {
+    let entry = get(this, 'navigation').currentEntry;
+
+    return this._getPath(new URL(entry!.url!));
+  }
+
+  /**
+    Uses `navigation.navigate` to push a new entry without a page reload.
+
+    @private
+    @method setURL
+    @param path {String}
+  */
+  setURL(path: string) {
+    this._navigate(path, 'push');
+  }
+
+  /**
+    Uses `navigation.navigate` to replace the current entry without a page
+    reload or history modification.
+
+    @private
+    @method replaceURL
+    @param path {String}
+  */
+  replaceURL(path: string) {
+    this._navigate(path, 'replace');
+  }
+
+  /**
+    Register a callback to be invoked whenever the browser navigates to a URL
+    within the application, including link clicks and the back and forward
+    buttons, but not after `setURL` or `replaceURL` are invoked.
+
+    @private
+    @method onUpdateURL
+    @param callback {Function}
+  */
+  onUpdateURL(callback: UpdateCallback) {
+    this._removeEventListener();
+
+    this._navigateHandler = (event: NavigateEvent) => {
+      if (
+        !event.canIntercept ||
+        event.hashChange ||
+        event.downloadRequest !== null ||
+        event.formData !== null ||
+        event.navigationType === 'reload'
+      ) {
+        return;
+      }
+
+      let url = new URL(event.destination.url);
+      if (!this._isWithinRootURL(url)) {
+        return;
+      }
+
+      // Navigations started by `setURL` only need to update the URL, the
+      // router is already transitioning.
+      if (event.info === this) {
+        event.intercept();
+        return;
+      }
+
+      event.intercept({
+        handler: () => {
+          callback(this._getPath(url));
+        },
+      });
+    };
+
+    get(this, 'navigation').addEventListener('navigate', this._navigateHandler);
+  }
+
+  /**
+    Formats a URL so it can be used as an element's `href`. The URL is always
+    appended to the `rootURL`.
+
+    @private
+    @method formatURL
+    @param url {String}
+    @return formatted url {String}
+  */
+  formatURL(url: string) {
+    let rootURL = get(this, 'rootURL');
+    let baseURL = get(this, 'baseURL');
+
+    if (url !== '') {
+      // remove trailing slashes if they exists
+      rootURL = rootURL.replace(/\/$/, '');
+      baseURL = baseURL.replace(/\/$/, '');
+    } else if (baseURL[0] === '/' && rootURL[0] === '/') {
+      // if baseURL and rootURL both start with a slash
+      // ... remove trailing slash from baseURL if it exists
+      baseURL = baseURL.replace(/\/$/, '');
+    }
+
+    return baseURL + rootURL + url;
+  }
+
+  /**
+    Cleans up the NavigationLocation event listener.
+
+    @private
+    @method willDestroy
+  */
+  willDestroy() {
+    this._removeEventListener();
+  }
+
+  _navigate(path: string, history: 'push' | 'replace') {
+    if (this.getURL() === path) {
+      return;
+    }
+
+    let result = get(this, 'navigation').navigate(this.formatURL(path), { history, info: this });
+
+    // A navigation that is superseded by the next one rejects, which is
+    // expected when a transition is redirected.
+    result.committed.catch(() => {});
+    result.finished.catch(() => {});
+  }
+
+  _getPath(url: URL) {
+    let rootURL = get(this, 'rootURL');
+    let baseURL = get(this, 'baseURL');
+
+    // remove trailing slashes if they exists
+    rootURL = rootURL.replace(/\/$/, '');
+    baseURL = baseURL.replace(/\/$/, '');
+
+    // remove baseURL and rootURL from start of path
+    let path = url.pathname
+      .replace(new RegExp(`^${baseURL}(?=/|$)`), '')
+      .replace(new RegExp(`^${rootURL}(?=/|$)`), '')
+      .replace(/\/\/$/g, '/'); // remove extra slashes
+
+    return path + url.search + url.hash;
+  }
+
+  _isWithinRootURL(url: URL) {
+    return `${url.pathname}/`.indexOf(this.formatURL('/')) === 0;
+  }
+
+  _removeEventListener() {
+    if (this._navigateHandler) {
+      get(this, 'navigation').removeEventListener('navigate', this._navigateHandler);
+    }
+  }
+}
+
+NavigationLocation.reopen({
+  /**
+    Will be pre-pended to path upon state change
+
+    @property rootURL
+    @default '/'
+    @private
+  */
+  rootURL: '/',
+});
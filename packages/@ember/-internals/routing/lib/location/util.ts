@@ -67,6 +67,17 @@ export function supportsHashChange(documentMode: number | undefined, global: Win
   return global && 'onhashchange' in global && (documentMode === undefined || documentMode > 7);
 }
 
+/*
+  `global` is an object that may have a `navigation` property, the entry point
+  of the Navigation API.
+
+  @private
+  @function supportsNavigation
+*/
+export function supportsNavigation(global: Window | null) {
+  return Boolean(global && 'navigation' in global);
+}
+
 /*
   `userAgent` is a user agent string. We use user agent testing here, because
   the stock Android browser is known to have buggy versions of the History API,
@@ -1,24 +1,24 @@
+import { computed, get, notifyPropertyChange } from '@ember/-internals/metal';
+import { getOwner } from '@ember/-internals/owner';
 import { Evented } from '@ember/-internals/runtime';
+import {
+  EMBER_ROUTING_ENGINE_RELATIVE_NAMES,
+  EMBER_ROUTING_MAP_REDIRECTS,
+  EMBER_ROUTING_MODEL_CACHE,
+  EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS,
+  EMBER_ROUTING_ROUTER_SERVICE_REFRESH,
+  EMBER_ROUTING_TRANSITION_ABORT_REASONS,
+} from '@ember/canary-features';
 import { assert } from '@ember/debug';
 import { readOnly } from '@ember/object/computed';
+import { assign } from '@ember/polyfills';
 import Service from '@ember/service';
 import { DEBUG } from '@glimmer/env';
-import { Transition } from 'router_js';
-import EmberRouter from '../system/router';
-import { extractRouteArgs, resemblesURL, shallowEqual } from '../utils';
-
-let freezeRouteInfo: Function;
-if (DEBUG) {
-  freezeRouteInfo = (transition: Transition) => {
-    if (transition.from !== null && !Object.isFrozen(transition.from)) {
-      Object.freeze(transition.from);
-    }
-
-    if (transition.to !== null && !Object.isFrozen(transition.to)) {
-      Object.freeze(transition.to);
-    }
-  };
-}
+import { RouteInfo, Transition } from 'router_js';
+import { copyDefaultValue } from '../system/route';
+import { freezeRouteInfo } from '../system/route-info';
+import EmberRouter, { PrivateRouteInfo, QueryParam } from '../system/router';
+import { extractRouteArgs, getActiveTargetName, resemblesURL, shallowEqual } from '../utils';
 
 function cleanURL(url: string, rootURL: string) {
   if (rootURL === '/') {
@@ -28,6 +28,91 @@ function cleanURL(url: string, rootURL: string) {
   return url.substr(rootURL.length, url.length);
 }
 
+const EXTERNAL_PREFIX = 'external:';
+
+/*
+  Returns the fully qualified name of a route name passed to the engine router
+  service of a routable engine, which is relative to the engine unless it has
+  the `external:` prefix.
+
+  @private
+*/
+function qualifyRouteName(router: RouterService, routeName: string) {
+  // query param only transitions do not have a route name
+  if (!router._engineRelative || typeof routeName !== 'string') {
+    return routeName;
+  }
+
+  if (routeName.indexOf(EXTERNAL_PREFIX) === 0) {
+    return routeName.slice(EXTERNAL_PREFIX.length);
+  }
+
+  let { mountPoint } = getOwner(router);
+  return routeName === 'application' ? mountPoint! : `${mountPoint}.${routeName}`;
+}
+
+/*
+  The inverse of `qualifyRouteName`.
+
+  @private
+*/
+function relativeRouteName(router: RouterService, routeName: string) {
+  let mountPoint = getOwner(router).mountPoint!;
+
+  if (routeName === mountPoint) {
+    return 'application';
+  } else if (routeName.indexOf(`${mountPoint}.`) === 0) {
+    return routeName.slice(mountPoint.length + 1);
+  }
+
+  return `${EXTERNAL_PREFIX}${routeName}`;
+}
+
+/*
+  Returns a view of the route info, and of its parents and children, whose
+  names are relative to the routable engine that owns the engine router
+  service.
+
+  @private
+*/
+function relativeRouteInfo<T extends RouteInfo | null>(router: RouterService, routeInfo: T): T {
+  if (routeInfo === null || !router._engineRelative) {
+    return routeInfo;
+  }
+
+  let routeInfos: RouteInfo[] = [];
+  for (let info: RouteInfo | null = routeInfo; info !== null; info = info.parent) {
+    routeInfos.unshift(info);
+  }
+  let index = routeInfos.length - 1;
+  for (let info = routeInfo!.child; info !== null; info = info.child) {
+    routeInfos.push(info);
+  }
+
+  let relativeInfos: RouteInfo[] = routeInfos.map((info, i) =>
+    Object.create(info, {
+      name: { value: relativeRouteName(router, info.name) },
+      parent: { get: () => relativeInfos[i - 1] || null },
+      child: { get: () => relativeInfos[i + 1] || null },
+      find: {
+        value(
+          predicate: (routeInfo: RouteInfo, i: number, arr: RouteInfo[]) => boolean,
+          thisArg?: any
+        ) {
+          for (let j = 0; j < relativeInfos.length; j++) {
+            if (predicate.call(thisArg, relativeInfos[j], j, relativeInfos)) {
+              return relativeInfos[j];
+            }
+          }
+          return undefined;
+        },
+      },
+    })
+  );
+
+  return relativeInfos[index] as T;
+}
+
 /**
    The Router service is the public API that provides access to the router.
 
@@ -54,30 +139,60 @@ function cleanURL(url: string, rootURL: string) {
 
    Like any service, it can also be injected into helpers, routes, etc.
 
+   Routable engines also have an `engine-router` service, whose route names
+   are relative to the engine, so `'posts.post'` refers to the
+   `blog.posts.post` route of an engine mounted at `blog`. This applies to the
+   names passed to `transitionTo`, `replaceWith`, `urlFor` and `isActive`, and
+   to the names of `currentRouteName`, `currentRoute` and the route infos
+   returned by `recognize`. The routes of the host application are referenced
+   with the `external:` prefix, like `'external:about'`.
+
    @public
    @extends Service
    @class RouterService
  */
 export default class RouterService extends Service {
   _router!: EmberRouter;
+  _engineRelative!: boolean;
 
   init() {
     super.init(...arguments);
 
     this._router.on('routeWillChange', (transition: Transition) => {
       if (DEBUG) {
-        freezeRouteInfo(transition);
+        // The attributes of the destination routes are attached once the
+        // transition resolves, so only the leaves can be frozen at this point.
+        if (transition.from && !Object.isFrozen(transition.from)) {
+          Object.freeze(transition.from);
+        }
+
+        if (transition.to && !Object.isFrozen(transition.to)) {
+          Object.freeze(transition.to);
+        }
       }
       this.trigger('routeWillChange', transition);
     });
 
     this._router.on('routeDidChange', (transition: Transition) => {
       if (DEBUG) {
-        freezeRouteInfo(transition);
+        freezeRouteInfo(transition.from);
+        freezeRouteInfo(transition.to);
+      }
+
+      if (EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS) {
+        // Query param only transitions keep the same route infos, so the
+        // values have to be read again after every transition.
+        notifyPropertyChange(this, 'queryParams');
       }
 
       this.trigger('routeDidChange', transition);
     });
+
+    if (EMBER_ROUTING_TRANSITION_ABORT_REASONS) {
+      this._router.on('routeDidAbort', (transition: Transition) => {
+        this.trigger('routeDidAbort', transition);
+      });
+    }
   }
 
   /**
@@ -107,6 +222,10 @@ export default class RouterService extends Service {
 
     let { routeName, models, queryParams } = extractRouteArgs(args);
 
+    if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+      routeName = qualifyRouteName(this, routeName);
+    }
+
     let transition = this._router._doTransition(routeName, models, queryParams, true);
     transition['_keepDefaultQueryParamValues'] = true;
 
@@ -203,6 +322,10 @@ export default class RouterService extends Service {
      @public
    */
   urlFor(routeName: string, ...args: any[]) {
+    if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+      routeName = qualifyRouteName(this, routeName);
+    }
+
     return this._router.generate(routeName, ...args);
   }
 
@@ -222,6 +345,10 @@ export default class RouterService extends Service {
     let { routeName, models, queryParams } = extractRouteArgs(args);
     let routerMicrolib = this._router._routerMicrolib;
 
+    if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+      routeName = qualifyRouteName(this, routeName);
+    }
+
     if (!routerMicrolib.isActiveIntent(routeName, models)) {
       return false;
     }
@@ -255,7 +382,18 @@ export default class RouterService extends Service {
       url.indexOf(this.rootURL) === 0
     );
     let internalURL = cleanURL(url, this.rootURL);
-    return this._router._routerMicrolib.recognize(internalURL);
+
+    if (EMBER_ROUTING_MAP_REDIRECTS) {
+      internalURL = this._router._redirectedURL(internalURL);
+    }
+
+    let routeInfo = this._router._routerMicrolib.recognize(internalURL);
+
+    if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+      return relativeRouteInfo(this, routeInfo);
+    }
+
+    return routeInfo;
   }
 
   /**
@@ -275,7 +413,18 @@ export default class RouterService extends Service {
       url.indexOf(this.rootURL) === 0
     );
     let internalURL = cleanURL(url, this.rootURL);
-    return this._router._routerMicrolib.recognizeAndLoad(internalURL);
+
+    if (EMBER_ROUTING_MAP_REDIRECTS) {
+      internalURL = this._router._redirectedURL(internalURL);
+    }
+
+    let promise = this._router._routerMicrolib.recognizeAndLoad(internalURL);
+
+    if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+      return promise.then(routeInfo => relativeRouteInfo(this, routeInfo));
+    }
+
+    return promise;
   }
 
   /**
@@ -339,9 +488,41 @@ export default class RouterService extends Service {
     @param {Transition} transition
     @public
   */
+
+  /**
+    The `routeDidAbort` event fires as soon as a transition is aborted, with
+    the aborted transition as the sole argument. Its `abortReason` tells why
+    it was aborted.
+
+    A good example is recording navigation the user gave up on, without
+    counting redirects:
+
+    ```app/services/analytics.js
+    import Service, { inject as service } from '@ember/service';
+
+    export default Service.extend({
+      router: service(),
+      init() {
+        this._super(...arguments);
+        this.router.on('routeDidAbort', (transition) => {
+          if (transition.abortReason.type === 'superseded') {
+            ga.send('abandonedNavigation', { to: transition.to.name });
+          }
+        })
+      }
+    });
+    ```
+
+    @event routeDidAbort
+    @param {Transition} transition
+    @category EMBER_ROUTING_TRANSITION_ABORT_REASONS
+    @public
+  */
 }
 
 RouterService.reopen(Evented, {
+  _engineRelative: false,
+
   /**
      Name of the current route.
 
@@ -493,3 +674,273 @@ RouterService.reopen(Evented, {
    */
   currentRoute: readOnly('_router.currentRoute'),
 });
+
+if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+  RouterService.reopen({
+    currentRouteName: computed('_router.currentRouteName', function(this: RouterService) {
+      let routeName = get(this._router, 'currentRouteName');
+      return this._engineRelative && routeName ? relativeRouteName(this, routeName) : routeName;
+    }).readOnly(),
+
+    currentRoute: computed('_router.currentRoute', function(this: RouterService) {
+      return relativeRouteInfo(this, get(this._router, 'currentRoute'));
+    }).readOnly(),
+  });
+}
+
+if (EMBER_ROUTING_ROUTER_SERVICE_REFRESH) {
+  RouterService.reopen({
+    /**
+      Refreshes the models of the currently active routes, firing the
+      `beforeModel`, `model` and `afterModel` hooks again in the same way
+      [Route#refresh](/ember/release/classes/Route/methods/refresh?anchor=refresh)
+      does.
+
+      When a route name is passed, only that route and its children are
+      refreshed. The route must be part of the active route hierarchy. Without
+      a route name the whole active hierarchy, starting at the application
+      route, is refreshed.
+
+      Like any other transition, a refresh fires the `routeWillChange` and
+      `routeDidChange` events.
+
+      ```app/components/reload-button.js
+      import Component from '@ember/component';
+      import { inject as service } from '@ember/service';
+
+      export default Component.extend({
+        router: service(),
+
+        actions: {
+          reload() {
+            this.router.refresh('posts');
+          }
+        }
+      });
+      ```
+
+      @method refresh
+      @param {String} [routeName] the name of the active route to refresh
+      @return {Transition} the transition object associated with this
+        attempted transition
+      @category EMBER_ROUTING_ROUTER_SERVICE_REFRESH
+      @public
+    */
+    refresh(this: RouterService, routeName?: string) {
+      let routerMicrolib = this._router._routerMicrolib;
+
+      if (routeName === undefined) {
+        return routerMicrolib.refresh();
+      }
+
+      if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+        routeName = qualifyRouteName(this, routeName);
+      }
+
+      assert(`The route '${routeName}' was not found`, this._router.hasRoute(routeName));
+
+      let routeInfos = routerMicrolib.currentRouteInfos || [];
+      let pivotRouteInfo: PrivateRouteInfo | undefined;
+      for (let i = 0; i < routeInfos.length; i++) {
+        if (routeInfos[i].name === routeName) {
+          pivotRouteInfo = routeInfos[i];
+          break;
+        }
+      }
+
+      assert(
+        `You attempted to refresh the route '${routeName}' but it is not currently active`,
+        pivotRouteInfo !== undefined
+      );
+
+      return routerMicrolib.refresh(pivotRouteInfo!.route);
+    },
+  });
+}
+
+if (EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS) {
+  RouterService.reopen({
+    /**
+      The current values of the query params, keyed by the name they have in
+      the URL (which is the `as` option of a query param, if it has one).
+
+      All the query params declared by the active routes are included, with
+      their default value when they are not present in the URL, and their
+      values are deserialized according to their configuration. Query params
+      that none of the active routes declare are not included.
+
+      The object is replaced after every transition, including the ones that
+      only change query params, so it can be used in computed properties and
+      templates.
+
+      ```app/components/pagination.js
+      import Component from '@ember/component';
+      import { computed } from '@ember/object';
+      import { inject as service } from '@ember/service';
+
+      export default Component.extend({
+        router: service(),
+
+        page: computed('router.queryParams', function() {
+          return this.router.queryParams.page;
+        })
+      });
+      ```
+
+      @property queryParams
+      @type Object
+      @category EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS
+      @public
+    */
+    queryParams: computed(function(this: RouterService) {
+      let router = this._router;
+      let state = router._routerMicrolib.state;
+      let queryParams = {};
+
+      if (state === undefined || state.routeInfos.length === 0) {
+        return queryParams;
+      }
+
+      // The state holds the serialized values the URL was built from, where
+      // query params with their default value are left out.
+      let values = state.queryParams;
+      let qps: QueryParam[] = router._queryParamsFor(state.routeInfos).qps;
+
+      for (let i = 0; i < qps.length; i++) {
+        let qp = qps[i];
+        queryParams[qp.urlKey] =
+          qp.urlKey in values
+            ? qp.route._deserializeQueryParamValue(values[qp.urlKey], qp)
+            : copyDefaultValue(qp.defaultValue);
+      }
+
+      if (DEBUG) {
+        Object.freeze(queryParams);
+      }
+
+      return queryParams;
+    }).readOnly(),
+
+    /**
+      Updates query params of the active routes without changing the current
+      route, keyed by the name they have in the URL.
+
+      Query params that are not passed keep their current value, and passing
+      `undefined` restores the default value of a query param. Values equal to
+      the default value are left out of the URL. Routes whose query params are
+      configured with `refreshModel: true` are refreshed as usual.
+
+      The URL is updated with `pushState` unless `replace: true` is passed as an
+      option, in which case the current history entry is replaced.
+
+      ```app/components/pagination.js
+      import Component from '@ember/component';
+      import { inject as service } from '@ember/service';
+
+      export default Component.extend({
+        router: service(),
+
+        actions: {
+          next() {
+            let { page } = this.router.queryParams;
+            this.router.setQueryParams({ page: page + 1 });
+          }
+        }
+      });
+      ```
+
+      @method setQueryParams
+      @param {Object} queryParams the query params to update
+      @param {Object} [options]
+      @param {Boolean} [options.replace] whether to replace the current
+        history entry instead of adding a new one
+      @return {Transition} the transition object associated with this
+        attempted transition
+      @category EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS
+      @public
+    */
+    setQueryParams(this: RouterService, queryParams: {}, options: { replace?: boolean } = {}) {
+      let router = this._router;
+
+      assert(
+        'You attempted to set query params before the application finished its first transition',
+        router._routerMicrolib.state !== undefined &&
+          router._routerMicrolib.state.routeInfos.length > 0
+      );
+
+      let state = router._routerMicrolib.state!;
+      let qps: QueryParam[] = router._queryParamsFor(state.routeInfos).qps;
+      let values = assign({}, get(this, 'queryParams'), queryParams);
+
+      for (let i = 0; i < qps.length; i++) {
+        let { urlKey, defaultValue } = qps[i];
+
+        if (urlKey in queryParams && queryParams[urlKey] === undefined) {
+          values[urlKey] = defaultValue;
+        }
+      }
+
+      // Every query param is passed, so none is read back from controllers.
+      let transition = router._doTransition(
+        getActiveTargetName(router._routerMicrolib),
+        [],
+        values as QueryParam
+      );
+
+      if (options.replace) {
+        transition.method('replace');
+      }
+
+      return transition;
+    },
+  });
+}
+
+if (EMBER_ROUTING_MODEL_CACHE) {
+  RouterService.reopen({
+    /**
+      Discards the models a route has cached according to its
+      [modelCache](/ember/release/classes/Route/properties/modelCache?anchor=modelCache)
+      policy, so that the `model` hook is called the next time the route is
+      entered.
+
+      When params are passed, only the models cached for params and query
+      params that include them are discarded.
+
+      ```app/components/edit-post.js
+      import Component from '@ember/component';
+      import { inject as service } from '@ember/service';
+
+      export default Component.extend({
+        router: service(),
+
+        actions: {
+          save(post) {
+            return post.save().then(() => {
+              this.router.invalidateModel('posts.post', { post_id: post.id });
+            });
+          }
+        }
+      });
+      ```
+
+      Invalidating a model does not refresh an active route, which keeps its
+      current model until it is entered again.
+
+      @method invalidateModel
+      @param {String} routeName the name of the route
+      @param {Object} [params] the params of the models to discard
+      @category EMBER_ROUTING_MODEL_CACHE
+      @public
+    */
+    invalidateModel(this: RouterService, routeName: string, params?: {}) {
+      if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+        routeName = qualifyRouteName(this, routeName);
+      }
+
+      assert(`The route '${routeName}' was not found`, this._router.hasRoute(routeName));
+
+      this._router._invalidateModel(routeName, params);
+    },
+  });
+}
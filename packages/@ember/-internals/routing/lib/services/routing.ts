@@ -55,6 +55,16 @@ export default class RoutingService extends Service {
     });
   }
 
+  prefetch(routeName: string, models: {}[], queryParams: {}) {
+    let router = this.router;
+    // return early when the router microlib is not present, which is the case for {{link-to}} in integration tests
+    if (!router._routerMicrolib) {
+      return;
+    }
+
+    return router._prefetch(routeName, models, queryParams);
+  }
+
   isActiveForRoute(
     contexts: {}[],
     queryParams: {},
@@ -1,4 +1,10 @@
 import { Factory } from '@ember/-internals/owner';
+import {
+  EMBER_ROUTING_LAZY_ROUTES,
+  EMBER_ROUTING_MAP_REDIRECTS,
+  EMBER_ROUTING_PARAM_CONSTRAINTS,
+  EMBER_ROUTING_TRANSITION_GUARDS,
+} from '@ember/canary-features';
 import { assert } from '@ember/debug';
 import { assign } from '@ember/polyfills';
 import { Option } from '@glimmer/interfaces';
@@ -12,12 +18,36 @@ export interface RouteOptions {
   resetNamespace?: boolean;
   serialize?: any;
   overrideNameAssertion?: boolean;
+  guards?: string[];
+  loader?: RouteLoader;
+  paths?: string[];
+  constraints?: ParamConstraints;
+}
+
+export type ParamConstraint = RegExp | ((value: string) => boolean);
+
+export interface ParamConstraints {
+  [name: string]: ParamConstraint;
+}
+
+export interface RouteLoader {
+  (): PromiseLike<unknown>;
 }
 
 export interface MountOptions {
   path?: string;
   as?: string;
   resetNamespace?: boolean;
+  guards?: string[];
+}
+
+export interface RedirectOptions {
+  params?: { [name: string]: string };
+}
+
+export interface RouteRedirect {
+  to: string;
+  params: { [name: string]: string };
 }
 
 export interface DSLCallback {
@@ -32,6 +62,8 @@ export interface DSL {
 
   mount(name: string): void;
   mount(name: string, options: MountOptions): void;
+
+  redirect(path: string, to: string, options?: RedirectOptions): void;
 }
 
 function isCallback(value?: RouteOptions | DSLCallback): value is DSLCallback {
@@ -46,6 +78,10 @@ export interface DSLImplOptions {
   overrideNameAssertion?: boolean;
   engineInfo?: EngineInfo;
   addRouteForEngine(name: string, routeOptions: EngineRouteInfo): void;
+  addGuardsForRoute?(name: string, guards: string[]): void;
+  addLoaderForRoute?(name: string, loader: RouteLoader): void;
+  addRedirect?(name: string, redirect: RouteRedirect): void;
+  addConstraintsForRoute?(name: string, constraints: ParamConstraints): void;
   resolveRouteMap(name: string): Factory<any, any>;
   path?: string;
 }
@@ -56,6 +92,8 @@ export default class DSLImpl implements DSL {
   enableLoadingSubstates: boolean;
   explicitIndex = false;
   options: DSLImplOptions;
+  guards: string[] = [];
+  loader: RouteLoader | undefined = undefined;
 
   constructor(name: string | null = null, options: DSLImplOptions) {
     this.parent = name;
@@ -113,9 +151,45 @@ export default class DSLImpl implements DSL {
       });
     }
 
+    let guards = this.guards;
+    if (EMBER_ROUTING_TRANSITION_GUARDS) {
+      if (options.guards !== undefined) {
+        assert(
+          `The \`guards\` option of the '${name}' route must be an array of guard names.`,
+          Array.isArray(options.guards)
+        );
+        guards = guards.concat(options.guards);
+      }
+
+      // Guards of parent routes apply to their children as well, so every
+      // route is registered with its full, inherited list of guards.
+      if (guards.length > 0 && this.options.addGuardsForRoute !== undefined) {
+        this.options.addGuardsForRoute(getFullName(this, name, options.resetNamespace), guards);
+      }
+    }
+
+    let loader = this.loader;
+    if (EMBER_ROUTING_LAZY_ROUTES) {
+      if (options.loader !== undefined) {
+        assert(
+          `The \`loader\` option of the '${name}' route must be a function returning a promise.`,
+          typeof options.loader === 'function'
+        );
+        loader = options.loader;
+      }
+
+      // Child routes are usually part of the same bundle, so they wait for the
+      // loader of their closest lazy parent before being looked up.
+      if (loader !== undefined && this.options.addLoaderForRoute !== undefined) {
+        this.options.addLoaderForRoute(getFullName(this, name, options.resetNamespace), loader);
+      }
+    }
+
     if (callback) {
       let fullName = getFullName(this, name, options.resetNamespace);
       let dsl = new DSLImpl(fullName, this.options);
+      dsl.guards = guards;
+      dsl.loader = loader;
 
       createRoute(dsl, 'loading');
       createRoute(dsl, 'error', { path: dummyErrorRoute });
@@ -129,6 +203,38 @@ export default class DSLImpl implements DSL {
   }
   /* eslint-enable no-dupe-class-members */
 
+  redirect(path: string, to: string, options: RedirectOptions = {}) {
+    assert(
+      'Redirects in `Router.map` are not enabled without the EMBER_ROUTING_MAP_REDIRECTS flag.',
+      Boolean(EMBER_ROUTING_MAP_REDIRECTS)
+    );
+    assert(
+      `The redirect from '${path}' must have the name of the route to redirect to.`,
+      typeof to === 'string' && to.charAt(0) !== '/'
+    );
+
+    if (this.options.addRedirect !== undefined) {
+      // The path is matched like the path of a route, but the router never
+      // enters it: it recognizes the route it redirects to instead.
+      let name = `_redirect_${uuid++}`;
+      this.options.addRedirect(name, { to, params: options.params || {} });
+
+      if (EMBER_ROUTING_PARAM_CONSTRAINTS) {
+        let constraints: ParamConstraints = {};
+        path = extractConstraints(path, constraints);
+
+        if (
+          Object.keys(constraints).length > 0 &&
+          this.options.addConstraintsForRoute !== undefined
+        ) {
+          this.options.addConstraintsForRoute(name, constraints);
+        }
+      }
+
+      this.matches.push(path, name, undefined);
+    }
+  }
+
   push(url: string, name: string, callback?: MatchCallback, serialize?: any) {
     let parts = name.split('.');
 
@@ -191,6 +297,15 @@ export default class DSLImpl implements DSL {
       path = `/${name}`;
     }
 
+    let guards = this.guards;
+    if (EMBER_ROUTING_TRANSITION_GUARDS && options.guards !== undefined) {
+      assert(
+        `The \`guards\` option of the '${name}' engine must be an array of guard names.`,
+        Array.isArray(options.guards)
+      );
+      guards = guards.concat(options.guards);
+    }
+
     let callback;
     let dummyErrorRoute = `/_unused_dummy_error_path_route_${name}/:error`;
     if (engineRouteMap) {
@@ -203,6 +318,8 @@ export default class DSLImpl implements DSL {
 
       let optionsForChild = assign({ engineInfo }, this.options);
       let childDSL = new DSLImpl(fullName, optionsForChild);
+      childDSL.guards = guards;
+      childDSL.loader = this.loader;
 
       createRoute(childDSL, 'loading');
       createRoute(childDSL, 'error', { path: dummyErrorRoute });
@@ -242,6 +359,22 @@ export default class DSLImpl implements DSL {
 
     this.options.addRouteForEngine(fullName, routeInfo);
 
+    if (
+      EMBER_ROUTING_TRANSITION_GUARDS &&
+      guards.length > 0 &&
+      this.options.addGuardsForRoute !== undefined
+    ) {
+      this.options.addGuardsForRoute(fullName, guards);
+    }
+
+    if (
+      EMBER_ROUTING_LAZY_ROUTES &&
+      this.loader !== undefined &&
+      this.options.addLoaderForRoute !== undefined
+    ) {
+      this.options.addLoaderForRoute(fullName, this.loader);
+    }
+
     this.push(path, fullName, callback);
   }
 }
@@ -270,5 +403,118 @@ function createRoute(
     options.path = `/${name}`;
   }
 
-  dsl.push(options.path, fullName, callback, options.serialize);
+  let constraints: ParamConstraints = {};
+  let path = options.path;
+  if (EMBER_ROUTING_PARAM_CONSTRAINTS) {
+    path = extractConstraints(path, constraints);
+  }
+
+  if (EMBER_ROUTING_MAP_REDIRECTS && options.paths !== undefined) {
+    assert(
+      `The \`paths\` option of the '${name}' route must be an array of paths.`,
+      Array.isArray(options.paths)
+    );
+
+    // The path that is added last is the one URLs are generated for.
+    for (let i = 0; i < options.paths.length; i++) {
+      let alias = options.paths[i];
+      if (EMBER_ROUTING_PARAM_CONSTRAINTS) {
+        alias = extractConstraints(alias, constraints);
+      }
+      dsl.push(alias, fullName, callback, options.serialize);
+    }
+  }
+
+  if (EMBER_ROUTING_PARAM_CONSTRAINTS) {
+    if (options.constraints !== undefined) {
+      assert(
+        `The \`constraints\` option of the '${name}' route must map param names to regular expressions or functions.`,
+        Object.keys(options.constraints).every(param => {
+          let constraint = options.constraints![param];
+          return constraint instanceof RegExp || typeof constraint === 'function';
+        })
+      );
+      assign(constraints, options.constraints);
+    }
+
+    if (Object.keys(constraints).length > 0 && dsl.options.addConstraintsForRoute !== undefined) {
+      dsl.options.addConstraintsForRoute(fullName, constraints);
+    }
+  }
+
+  dsl.push(path, fullName, callback, options.serialize);
+}
+
+/*
+  Removes the constraints of the dynamic and star segments of the path, like
+  the `\d+` of `/posts/:post_id(\d+)`, and adds them to the given constraints.
+
+  A constraint ends at the parenthesis that closes the one it starts with, so it
+  can contain groups, character classes and slashes, like the constraint of
+  `/files/*path([^/]+/[^/]+)`.
+
+  @private
+*/
+function extractConstraints(path: string, constraints: ParamConstraints) {
+  let result = '';
+  let i = 0;
+
+  while (i < path.length) {
+    let char = path.charAt(i);
+    let startsSegment = i === 0 || path.charAt(i - 1) === '/';
+
+    if (!startsSegment || (char !== ':' && char !== '*')) {
+      result += char;
+      i++;
+      continue;
+    }
+
+    let nameEnd = i + 1;
+    while (nameEnd < path.length && path.charAt(nameEnd) !== '/' && path.charAt(nameEnd) !== '(') {
+      nameEnd++;
+    }
+
+    let name = path.slice(i + 1, nameEnd);
+    result += char + name;
+    i = nameEnd;
+
+    if (path.charAt(i) === '(') {
+      let end = constraintEnd(path, i);
+      constraints[name] = new RegExp(`^(?:${path.slice(i + 1, end)})$`);
+      i = end + 1;
+    }
+  }
+
+  return result;
+}
+
+/*
+  The index of the parenthesis that closes the constraint starting at the given
+  index, skipping the escaped characters and the characters of character
+  classes.
+
+  @private
+*/
+function constraintEnd(path: string, start: number) {
+  let depth = 0;
+  let inClass = false;
+
+  for (let i = start; i < path.length; i++) {
+    let char = path.charAt(i);
+
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+
+  assert(`The constraint of a dynamic segment of '${path}' must end with a parenthesis.`, false);
+  return path.length;
 }
@@ -1,3 +1,5 @@
+import { RouteInfo as IRouteInfo } from 'router_js';
+
 /**
   A `RouteInfoWithAttributes` is an object that contains
   metadata, including the resolved value from the routes
@@ -166,6 +168,13 @@
   @public
 */
 
+/**
+  Will contain the result `Route#buildRouteInfoMetadata`
+  for the corresponding Route.
+  @property {Any} metadata
+  @public
+*/
+
 /**
   A reference to the parent route's `RouteInfo`.
   This can be used to traverse upward to the topmost
@@ -215,3 +224,32 @@
   @returns {Object} Found item or undefined
   @public
 */
+
+export type RouteInfo = IRouteInfo;
+
+export interface RouteInfoWithAttributes extends RouteInfo {
+  readonly attributes: any;
+}
+
+/*
+  Freezes every node of the `RouteInfo` linked list that the given
+  `RouteInfo` belongs to, so that neither the leaf nor any of its
+  ancestors or descendants can be mutated.
+*/
+export function freezeRouteInfo(routeInfo: RouteInfo | null | undefined | void) {
+  if (!routeInfo) {
+    return;
+  }
+
+  let current: RouteInfo | null = routeInfo;
+  while (current.parent !== null) {
+    current = current.parent;
+  }
+
+  while (current !== null) {
+    if (!Object.isFrozen(current)) {
+      Object.freeze(current);
+    }
+    current = current.child;
+  }
+}
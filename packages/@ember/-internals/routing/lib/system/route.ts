@@ -16,7 +16,16 @@ import {
   setFrameworkClass,
   typeOf,
 } from '@ember/-internals/runtime';
-import { EMBER_FRAMEWORK_OBJECT_OWNER_ARGUMENT } from '@ember/canary-features';
+import {
+  EMBER_FRAMEWORK_OBJECT_OWNER_ARGUMENT,
+  EMBER_ROUTING_CAN_EXIT,
+  EMBER_ROUTING_INSTRUMENTATION,
+  EMBER_ROUTING_MODEL_CACHE,
+  EMBER_ROUTING_NAMED_ROUTERS,
+  EMBER_ROUTING_PREFETCH,
+  EMBER_ROUTING_QUERY_PARAM_TRANSFORMS,
+  EMBER_ROUTING_TRANSITION_ABORT_REASONS,
+} from '@ember/canary-features';
 import { assert, deprecate, info, isTesting } from '@ember/debug';
 import { ROUTER_EVENTS } from '@ember/deprecated-features';
 import { assign } from '@ember/polyfills';
@@ -39,10 +48,22 @@ import {
   stashParamNames,
 } from '../utils';
 import generateController from './generate_controller';
-import EmberRouter, { QueryParam } from './router';
+import EmberRouter, {
+  measureRouteHook,
+  QueryParam,
+  routeTransitionReason,
+  withAbortReason,
+} from './router';
 
 export const ROUTE_CONNECTIONS = new WeakMap();
 
+export type ModelCachePolicy = 'none' | 'session' | { maxAge: number };
+
+export interface QueryParamTransform {
+  serialize(value: unknown): unknown;
+  deserialize(serialized: unknown): unknown;
+}
+
 export function defaultSerialize(model: {}, params: string[]) {
   if (params.length < 1 || !model) {
     return;
@@ -67,6 +88,14 @@ export function hasDefaultSerialize(route: Route) {
   return route.serialize === defaultSerialize;
 }
 
+function defaultCanExit(_transition: Transition | null): boolean | PromiseLike<boolean> {
+  return true;
+}
+
+export function hasDefaultCanExit(route: Route) {
+  return route['canExit'] === defaultCanExit;
+}
+
 /**
 @module @ember/routing
 */
@@ -301,6 +330,49 @@ class Route extends EmberObject implements IRoute {
     return this._router._deserializeQueryParam(value, defaultValueType);
   }
 
+  /**
+    Serializes the value of the given query parameter, using the transform
+    named by its `transform` option if it has one.
+
+    @method _serializeQueryParamValue
+    @param {Object} value
+    @param {Object} qp
+    @private
+  */
+  _serializeQueryParamValue(value: unknown, qp: Pick<QueryParam, 'urlKey' | 'type' | 'transform'>) {
+    if (EMBER_ROUTING_QUERY_PARAM_TRANSFORMS && qp.transform !== undefined) {
+      if (value === null || value === undefined) {
+        return value;
+      }
+      return lookupQueryParamTransform(this, qp.transform).serialize(value);
+    }
+
+    return this.serializeQueryParam(value, qp.urlKey, qp.type);
+  }
+
+  /**
+    Deserializes the value of the given query parameter, using the transform
+    named by its `transform` option if it has one.
+
+    @method _deserializeQueryParamValue
+    @param {Object} value
+    @param {Object} qp
+    @private
+  */
+  _deserializeQueryParamValue(
+    value: unknown,
+    qp: Pick<QueryParam, 'urlKey' | 'type' | 'transform'>
+  ) {
+    if (EMBER_ROUTING_QUERY_PARAM_TRANSFORMS && qp.transform !== undefined) {
+      if (value === null || value === undefined) {
+        return value;
+      }
+      return lookupQueryParamTransform(this, qp.transform).deserialize(value);
+    }
+
+    return this.deserializeQueryParam(value, qp.urlKey, qp.type);
+  }
+
   /**
     @private
 
@@ -787,6 +859,13 @@ class Route extends EmberObject implements IRoute {
   */
   transitionTo(...args: any[]) {
     // eslint-disable-line no-unused-vars
+    if (EMBER_ROUTING_TRANSITION_ABORT_REASONS) {
+      let reason = routeTransitionReason(this._router, this);
+      return withAbortReason(this._router, reason, () =>
+        this._router.transitionTo(...prefixRouteNameArg(this, args))
+      );
+    }
+
     return this._router.transitionTo(...prefixRouteNameArg(this, args));
   }
 
@@ -881,6 +960,13 @@ class Route extends EmberObject implements IRoute {
     @public
   */
   replaceWith(...args: any[]) {
+    if (EMBER_ROUTING_TRANSITION_ABORT_REASONS) {
+      let reason = routeTransitionReason(this._router, this);
+      return withAbortReason(this._router, reason, () =>
+        this._router.replaceWith(...prefixRouteNameArg(this, args))
+      );
+    }
+
     return this._router.replaceWith(...prefixRouteNameArg(this, args));
   }
 
@@ -908,6 +994,11 @@ class Route extends EmberObject implements IRoute {
       let propNames = qp !== undefined ? get(qp, 'propertyNames') : [];
       addQueryParamsObservers(controller, propNames);
       this.controller = controller;
+
+      if (EMBER_ROUTING_NAMED_ROUTERS && this._router._routerName !== undefined) {
+        // Actions of the templates bubble through the routes of the named router.
+        set(controller, 'target', this._router);
+      }
     }
 
     let queryParams = get(this, '_qp');
@@ -937,7 +1028,13 @@ class Route extends EmberObject implements IRoute {
       setProperties(controller, qpValues);
     }
 
-    this.setupController(controller, context, transition);
+    if (EMBER_ROUTING_INSTRUMENTATION) {
+      measureRouteHook('route.setupController', this, transition, () =>
+        this.setupController(controller, context, transition)
+      );
+    } else {
+      this.setupController(controller, context, transition);
+    }
 
     if (this._environment.options.shouldRender) {
       this.renderTemplate(controller, context);
@@ -1188,7 +1285,27 @@ class Route extends EmberObject implements IRoute {
     Router.js hook.
    */
   deserialize(_params: {}, transition: Transition) {
-    return this.model(this._paramsFor(this.routeName, _params), transition);
+    if (EMBER_ROUTING_PREFETCH) {
+      let prefetched = this._router._takePrefetchedModel(this, _params);
+
+      if (prefetched !== undefined) {
+        return prefetched;
+      }
+    }
+
+    let params = this._paramsFor(this.routeName, _params);
+    let model = () => this.model(params, transition);
+
+    if (EMBER_ROUTING_INSTRUMENTATION) {
+      let callModel = model;
+      model = () => measureRouteHook('route.model', this, transition, callModel);
+    }
+
+    if (EMBER_ROUTING_MODEL_CACHE) {
+      return this._router._cachedModel(this, params, model);
+    }
+
+    return model();
   }
 
   /**
@@ -1740,8 +1857,10 @@ class Route extends EmberObject implements IRoute {
 
   /**
     Allows you to produce custom metadata for the route.
-    The return value of this method will be attatched to
-    its corresponding RouteInfoWithAttributes obejct.
+    The return value of this method will be attached to
+    its corresponding RouteInfo and RouteInfoWithAttributes
+    objects, including the ones exposed on
+    `RouterService#currentRoute`.
 
     Example
 
@@ -1770,7 +1889,10 @@ class Route extends EmberObject implements IRoute {
     });
     ```
 
+    @method buildRouteInfoMetadata
     @return any
+    @since 3.10.0
+    @public
    */
   buildRouteInfoMetadata() {}
 }
@@ -1937,7 +2059,7 @@ function getQueryParamsFor(route: Route, state: TransitionState<Route>) {
   return params;
 }
 
-function copyDefaultValue(value: unknown[]) {
+export function copyDefaultValue(value: unknown) {
   if (Array.isArray(value)) {
     return emberA(value.slice());
   }
@@ -1989,6 +2111,17 @@ function mergeEachQueryParams(controllerQP: {}, routeQP: {}) {
   return qps;
 }
 
+function lookupQueryParamTransform(route: Route, name: string): QueryParamTransform {
+  let transform: QueryParamTransform | undefined = getOwner(route).lookup(`transform:${name}`);
+
+  assert(
+    `The query param transform '${name}' could not be found. Make sure it is registered as 'transform:${name}'.`,
+    transform !== undefined
+  );
+
+  return transform!;
+}
+
 function addQueryParamsObservers(controller: any, propNames: string[]) {
   propNames.forEach(prop => {
     controller.addObserver(`${prop}.[]`, controller, controller._qpChanged);
@@ -2092,7 +2225,17 @@ Route.reopen(ActionHandler, Evented, {
         // By default, the query param URL key is the same name as
         // the controller property name. Use `as` to specify a
         // different URL key.
-        as: 'page'
+        as: 'page',
+
+        // By default, values are serialized according to the type of
+        // the default value. Use `transform` to name a transform that
+        // converts values to and from the URL instead, such as
+        // `transform: 'date'` for a transform registered as
+        // `transform:date`. A transform implements `serialize(value)`
+        // and `deserialize(serialized)`; `null` and `undefined` values
+        // are passed through untouched. This option is only available
+        // behind the `ember-routing-query-param-transforms` feature flag.
+        transform: undefined
       }
     }
     ```
@@ -2283,8 +2426,13 @@ Route.reopen(ActionHandler, Evented, {
       defaultValue = copyDefaultValue(defaultValue);
 
       let type = desc.type || typeOf(defaultValue);
+      let transform = desc.transform;
 
-      let defaultValueSerialized = this.serializeQueryParam(defaultValue, urlKey, type);
+      let defaultValueSerialized = this._serializeQueryParamValue(defaultValue, {
+        urlKey,
+        type,
+        transform,
+      });
       let scopedPropertyName = `${controllerName}:${propName}`;
       let qp = {
         undecoratedDefaultValue: get(controller, propName),
@@ -2293,6 +2441,7 @@ Route.reopen(ActionHandler, Evented, {
         serializedValue: defaultValueSerialized,
 
         type,
+        transform,
         urlKey,
         prop: propName,
         scopedPropertyName,
@@ -2469,7 +2618,13 @@ Route.reopen(ActionHandler, Evented, {
     },
 
     finalizeQueryParamChange(this: Route, params: {}, finalParams: {}[], transition: Transition) {
-      if (this.fullRouteName !== 'application') {
+      let rootRouteName = 'application';
+
+      if (EMBER_ROUTING_NAMED_ROUTERS && this._router._routerName !== undefined) {
+        rootRouteName = this._router._routerName;
+      }
+
+      if (this.fullRouteName !== rootRouteName) {
         return true;
       }
 
@@ -2499,13 +2654,13 @@ Route.reopen(ActionHandler, Evented, {
         if (changes.has(qp.urlKey)) {
           // Value updated in/before setupController
           value = get(controller, qp.prop);
-          svalue = route.serializeQueryParam(value, qp.urlKey, qp.type);
+          svalue = route._serializeQueryParamValue(value, qp);
         } else {
           if (presentKey) {
             svalue = params[presentKey];
 
             if (svalue !== undefined) {
-              value = route.deserializeQueryParam(svalue, qp.urlKey, qp.type);
+              value = route._deserializeQueryParamValue(svalue, qp);
             }
           } else {
             // No QP provided; use default value.
@@ -2607,6 +2762,134 @@ if (ROUTER_EVENTS) {
   });
 }
 
+if (EMBER_ROUTING_PREFETCH) {
+  Route.reopen({
+    /**
+      A hook you can implement to load the data for this route ahead of time,
+      before the route is entered. It is called when a `<LinkTo>` with a
+      `@prefetch` argument leads to this route and the `model` hook would run
+      for the link's params.
+
+      The params are the dynamic segments of this route, as they would be
+      passed to the `model` hook. Query params are not included.
+
+      ```app/routes/post.js
+      import Route from '@ember/routing/route';
+
+      export default Route.extend({
+        prefetch(params) {
+          return this.store.findRecord('post', params.post_id);
+        },
+
+        model(params) {
+          return this.store.findRecord('post', params.post_id);
+        }
+      });
+      ```
+
+      When the route is then entered with the same params, the value returned
+      by this hook is used as the model instead of calling the `model` hook.
+      Prefetched data is discarded after the next transition completes, and
+      when the returned promise rejects.
+
+      By default this hook returns `undefined`, which does not prefetch
+      anything.
+
+      @method prefetch
+      @param {Object} params the parameters of the route's dynamic segments
+      @return {any | Promise<any>} the model for this route
+      @category EMBER_ROUTING_PREFETCH
+      @public
+    */
+    prefetch(_params: {}): unknown {
+      return undefined;
+    },
+  });
+}
+
+if (EMBER_ROUTING_MODEL_CACHE) {
+  Route.reopen({
+    /**
+      Configures whether the model this route loads is reused when the route
+      is entered again with the same params and query params, instead of
+      calling the `model` hook again:
+
+      * `'none'` always calls the `model` hook.
+      * `'session'` reuses the model for as long as the application runs.
+      * `{ maxAge }` reuses the model for `maxAge` milliseconds.
+
+      ```app/routes/post.js
+      import Route from '@ember/routing/route';
+
+      export default Route.extend({
+        modelCache: { maxAge: 60 * 1000 },
+
+        model(params) {
+          return fetch(`/posts/${params.post_id}`).then(response => response.json());
+        }
+      });
+      ```
+
+      With a policy, navigating back and forward between routes does not load
+      their models again. A model whose promise rejects is not reused, and
+      refreshing a route discards the models it has cached. Cached models can
+      also be discarded with
+      [RouterService#invalidateModel](/ember/release/classes/RouterService/methods/invalidateModel?anchor=invalidateModel).
+
+      @property modelCache
+      @type {String|Object}
+      @default 'none'
+      @category EMBER_ROUTING_MODEL_CACHE
+      @public
+    */
+    modelCache: 'none',
+  });
+}
+
+if (EMBER_ROUTING_CAN_EXIT) {
+  Route.reopen({
+    /**
+      A hook you can implement to prevent the route from being exited, for
+      instance when a form it renders has unsaved changes. It is called before
+      any transition that exits this route resolves the routes it enters, and
+      may return a promise. Answering `false` aborts the transition.
+
+      ```app/routes/post/edit.js
+      import Route from '@ember/routing/route';
+
+      export default Route.extend({
+        canExit() {
+          if (!this.controller.model.hasDirtyAttributes) {
+            return true;
+          }
+
+          return this.modals.confirm('Discard your changes?');
+        }
+      });
+      ```
+
+      While waiting for a promise, the transition is aborted, and it is
+      retried once the promise resolves to anything but `false`. When the back
+      or forward buttons started the transition, the location shows the
+      current URL again in the meantime. Routes are asked deepest first, and a
+      route that allowed the transition is not asked again when the transition
+      is redirected or retried.
+
+      When the router's `confirmBeforeUnload` option is enabled, this hook is
+      also called with `null` before the page is unloaded. The page can't wait
+      for a promise at that point: answering `false` synchronously makes the
+      browser ask whether to leave the page.
+
+      @method canExit
+      @param {Transition|null} transition the transition exiting the route
+      @return {Boolean|Promise<Boolean>} whether the route can be exited
+      @category EMBER_ROUTING_CAN_EXIT
+      @public
+    */
+    canExit: defaultCanExit,
+  });
+}
+
 if (EMBER_FRAMEWORK_OBJECT_OWNER_ARGUMENT) {
   setFrameworkClass(Route);
 }
@@ -1,30 +1,52 @@
+import { hasDOM } from '@ember/-internals/browser-environment';
 import { computed, get, notifyPropertyChange, set } from '@ember/-internals/metal';
 import { getOwner, Owner } from '@ember/-internals/owner';
 import { A as emberA, Evented, Object as EmberObject, typeOf } from '@ember/-internals/runtime';
+import {
+  EMBER_GLIMMER_STREAMING,
+  EMBER_ROUTING_CAN_EXIT,
+  EMBER_ROUTING_INSTRUMENTATION,
+  EMBER_ROUTING_LAZY_ROUTES,
+  EMBER_ROUTING_MAP_REDIRECTS,
+  EMBER_ROUTING_MODEL_CACHE,
+  EMBER_ROUTING_NAMED_ROUTERS,
+  EMBER_ROUTING_PARAM_CONSTRAINTS,
+  EMBER_ROUTING_PREFETCH,
+  EMBER_ROUTING_SCROLL_RESTORATION,
+  EMBER_ROUTING_SUBSTATE_CONFIGURATION,
+  EMBER_ROUTING_TRANSITION_ABORT_REASONS,
+  EMBER_ROUTING_TRANSITION_GUARDS,
+} from '@ember/canary-features';
 import { assert, deprecate, info } from '@ember/debug';
 import { APP_CTRL_ROUTER_PROPS, ROUTER_EVENTS } from '@ember/deprecated-features';
 import EmberError from '@ember/error';
+import { _instrumentStart, _time } from '@ember/instrumentation';
 import { assign } from '@ember/polyfills';
-import { cancel, once, run, scheduleOnce } from '@ember/runloop';
+import { cancel, later, once, run, schedule, scheduleOnce } from '@ember/runloop';
 import { DEBUG } from '@glimmer/env';
 import EmberLocation, { EmberLocation as IEmberLocation } from '../location/api';
+import MemoryLocation from '../location/memory_location';
 import { calculateCacheKey, extractRouteArgs, getActiveTargetName, resemblesURL } from '../utils';
-import DSL from './dsl';
+import DSL, { ParamConstraint, ParamConstraints, RouteLoader, RouteRedirect } from './dsl';
 import Route, {
   defaultSerialize,
+  hasDefaultCanExit,
   hasDefaultSerialize,
+  ModelCachePolicy,
   RenderOptions,
   ROUTE_CONNECTIONS,
   ROUTER_EVENT_DEPRECATIONS,
 } from './route';
+import { freezeRouteInfo, RouteInfo, RouteInfoWithAttributes } from './route-info';
 import RouterState from './router_state';
 /**
 @module @ember/routing
 */
 
-import { MatchCallback } from 'route-recognizer';
+import RouteRecognizer, { MatchCallback, Params, Results } from 'route-recognizer';
 import Router, {
   InternalRouteInfo,
+  InternalTransition,
   logAbort,
   QUERY_PARAMS_SYMBOL,
   STATE_SYMBOL,
@@ -32,6 +54,7 @@ import Router, {
   TransitionError,
   TransitionState,
 } from 'router_js';
+import RSVP from 'rsvp';
 import { EngineRouteInfo } from './engines';
 
 function defaultDidTransition(this: EmberRouter, infos: PrivateRouteInfo[]) {
@@ -97,10 +120,13 @@ export interface QueryParam {
   prop: string;
   urlKey: string;
   type: string;
+  transform?: string;
   route: Route;
   parts: string[];
   values: {};
   scopedPropertyName: string;
+  defaultValue: unknown;
+  serializedDefaultValue: unknown;
 }
 
 export type PrivateRouteInfo = InternalRouteInfo<Route>;
@@ -121,14 +147,21 @@ const { slice } = Array.prototype;
   @public
 */
 class EmberRouter extends EmberObject {
+  static routerMaps?: { [name: string]: MatchCallback[] };
+
   location!: string | IEmberLocation;
   rootURL!: string;
+  defaultLoadingRoute!: string | null;
+  defaultErrorRoute!: string | null;
+  loadingDelay!: number;
+  loadingMinimumDuration!: number;
+  confirmBeforeUnload!: boolean;
   _routerMicrolib!: Router<Route>;
 
   currentURL: string | null = null;
   currentRouteName: string | null = null;
   currentPath: string | null = null;
-  currentRoute = null;
+  currentRoute: RouteInfo | RouteInfoWithAttributes | null = null;
 
   _qpCache = Object.create(null);
   _qpUpdates = new Set();
@@ -136,6 +169,22 @@ class EmberRouter extends EmberObject {
   _handledErrors = new Set();
   _engineInstances: { [name: string]: { [id: string]: EngineInstance } } = Object.create(null);
   _engineInfoByRoute = Object.create(null);
+  _guardsByRoute: { [name: string]: string[] } = Object.create(null);
+  _guardCheck: GuardCheck | undefined = undefined;
+  _loaderByRoute: { [name: string]: RouteLoader } = Object.create(null);
+  _redirects: { [name: string]: RouteRedirect } = Object.create(null);
+  _constraintsByRoute: { [name: string]: ParamConstraints } = Object.create(null);
+  _pendingLoaders = new Map<RouteLoader, Promise<void>>();
+  _settledLoaders = new Set<RouteLoader>();
+  _abortReasonType: AbortReasonType | undefined = undefined;
+  _pendingTransition: Transition | undefined = undefined;
+  _confirmedExits = new Set<Route>();
+  _prefetchedModels = new Map<string, Promise<unknown>>();
+  _cachedModels = new Map<string, CachedModel>();
+  _loadingSubstateEnteredAt: number | undefined = undefined;
+  _beforeUnloadHandler: ((event: BeforeUnloadEvent) => void) | undefined = undefined;
+  _routerName?: string;
+  _namedRouters: EmberRouter[] = [];
 
   constructor() {
     super(...arguments);
@@ -150,7 +199,24 @@ class EmberRouter extends EmberObject {
     let seen = Object.create(null);
 
     class PrivateRouter extends Router<Route> {
-      getRoute(name: string) {
+      getRoute(name: string): Route | Promise<Route> {
+        if (EMBER_ROUTING_TRANSITION_GUARDS && router._guardCheck !== undefined) {
+          let guards = router._guardsByRoute[name];
+          if (guards !== undefined) {
+            router._guardCheck.add(guards);
+            return router._guardCheck.promise.then(() => this.getRoute(name));
+          }
+        }
+
+        if (EMBER_ROUTING_LAZY_ROUTES) {
+          let loader = router._loaderByRoute[name];
+          if (loader !== undefined && !router._settledLoaders.has(loader)) {
+            // Nothing may be looked up before the bundle is loaded, the
+            // registry would remember the route as missing otherwise.
+            return router._loadRoutes(loader).then(() => this.getRoute(name) as Route);
+          }
+        }
+
         let routeName = name;
         let routeOwner = owner;
         let engineInfo = router._engineInfoByRoute[routeName];
@@ -186,6 +252,10 @@ class EmberRouter extends EmberObject {
 
         route._setRouteName(routeName);
 
+        if (EMBER_ROUTING_NAMED_ROUTERS && router._routerName !== undefined) {
+          route._router = router;
+        }
+
         if (engineInfo && !hasDefaultSerialize(route)) {
           throw new Error(
             'Defining a custom serialize method on an Engine route is not supported.'
@@ -260,22 +330,116 @@ class EmberRouter extends EmberObject {
         return triggerEvent.bind(router)(routeInfos, ignoreFailure, name, args);
       }
 
+      transitionByIntent(
+        intent: Parameters<Router<Route>['transitionByIntent']>[0],
+        isIntermediate: boolean
+      ) {
+        let guardCheck: GuardCheck | undefined;
+
+        // Substates are entered without checking any guard.
+        if (EMBER_ROUTING_TRANSITION_GUARDS && !isIntermediate) {
+          guardCheck = router._guardCheck = new GuardCheck(router);
+        }
+
+        let transition: Transition;
+
+        try {
+          transition = super.transitionByIntent(intent, isIntermediate);
+        } finally {
+          router._guardCheck = undefined;
+        }
+
+        // A transition aborted from `routeWillChange` while it superseded
+        // another one is still made active by router.js.
+        if (!isIntermediate && this.activeTransition === transition && transition.isAborted) {
+          this.activeTransition = undefined;
+        }
+
+        if (EMBER_ROUTING_INSTRUMENTATION && !isIntermediate && !transition['timings']) {
+          transition['timings'] = [];
+        }
+
+        if (guardCheck !== undefined) {
+          guardCheck.run(transition);
+        }
+
+        return transition;
+      }
+
+      refresh(pivotRoute?: Route) {
+        if (EMBER_ROUTING_MODEL_CACHE) {
+          // Refreshed routes load their models again.
+          let routeInfos = this.currentRouteInfos || [];
+          let refreshing = pivotRoute === undefined;
+
+          for (let i = 0; i < routeInfos.length; i++) {
+            refreshing = refreshing || routeInfos[i].route === pivotRoute;
+
+            if (refreshing) {
+              router._invalidateModel(routeInfos[i].name);
+            }
+          }
+        }
+
+        return super.refresh(pivotRoute);
+      }
+
       routeWillChange(transition: Transition) {
+        if (EMBER_ROUTING_TRANSITION_ABORT_REASONS) {
+          recordAbort(router, transition);
+        }
+
+        if (EMBER_ROUTING_CAN_EXIT) {
+          confirmExit(router, transition);
+        }
+
         router.trigger('routeWillChange', transition);
       }
 
       routeDidChange(transition: Transition) {
+        if (DEBUG) {
+          freezeRouteInfo(transition.to);
+        }
         router.set('currentRoute', transition.to);
+
+        if (EMBER_ROUTING_CAN_EXIT) {
+          // The routes confirmed for a transition that completed or was
+          // aborted are asked again next time.
+          router._confirmedExits.clear();
+        }
+
+        if (EMBER_ROUTING_TRANSITION_ABORT_REASONS && router._pendingTransition === transition) {
+          router._pendingTransition = undefined;
+        }
         once(() => {
           router.trigger('routeDidChange', transition);
         });
+
+        if (EMBER_ROUTING_PREFETCH) {
+          router._prefetchedModels.clear();
+        }
+
+        if (EMBER_ROUTING_SCROLL_RESTORATION && typeof location.afterTransition === 'function') {
+          schedule('afterRender', location, location.afterTransition);
+        }
+
+        if (EMBER_ROUTING_INSTRUMENTATION && transition.to) {
+          let finish = startTiming('route.render', transition.to.name, transition);
+          schedule('afterRender', null, finish);
+        }
       }
 
       transitionDidError(error: TransitionError, transition: Transition) {
         if (error.wasAborted || transition.isAborted) {
           // If the error was a transition erorr or the transition aborted
           // log the abort.
-          return logAbort(transition);
+          let abortedError = logAbort(transition);
+
+          if (EMBER_ROUTING_TRANSITION_ABORT_REASONS) {
+            abortedError['abortReason'] = transition['abortReason'];
+          }
+
+          return abortedError;
         } else {
           // Otherwise trigger the "error" event to attempt an intermediate
           // transition into an error substate
@@ -284,13 +448,16 @@ class EmberRouter extends EmberObject {
             // If we handled the error with a substate just roll the state back on
             // the transition and send the "routeDidChange" event for landing on
             // the error substate and return the error.
+            if (EMBER_ROUTING_TRANSITION_ABORT_REASONS) {
+              setAbortReason(router, transition, 'error');
+            }
             transition.rollback();
             this.routeDidChange(transition);
             return error.error;
           } else {
             // If it was not handled, abort the transition completely and return
             // the error.
-            transition.abort();
+            withAbortReason(router, 'error', () => transition.abort());
             return error.error;
           }
         }
@@ -321,14 +488,36 @@ class EmberRouter extends EmberObject {
 
     let dslCallbacks = (this.constructor as any).dslCallbacks || [K];
     let dsl = this._buildDSL();
+    let { defaultLoadingRoute, defaultErrorRoute } = this;
+    let rootRouteName = 'application';
+
+    if (EMBER_ROUTING_NAMED_ROUTERS && this._routerName !== undefined) {
+      // The routes of a named router are nested in a route of the same name,
+      // so that they do not clash with the routes of the application.
+      rootRouteName = this._routerName;
+    }
 
     dsl.route(
-      'application',
+      rootRouteName,
       { path: '/', resetNamespace: true, overrideNameAssertion: true },
       function() {
         for (let i = 0; i < dslCallbacks.length; i++) {
           dslCallbacks[i].call(this);
         }
+
+        if (EMBER_ROUTING_SUBSTATE_CONFIGURATION) {
+          // Like the `loading` and `error` routes of the application, the
+          // default substates are not part of the application's map.
+          if (defaultLoadingRoute) {
+            this.route(defaultLoadingRoute);
+          }
+
+          if (defaultErrorRoute) {
+            this.route(defaultErrorRoute, {
+              path: `/_unused_dummy_error_path_route_${defaultErrorRoute}/:error`,
+            });
+          }
+        }
       }
     );
 
@@ -338,6 +527,10 @@ class EmberRouter extends EmberObject {
       }
     }
 
+    if (EMBER_ROUTING_PARAM_CONSTRAINTS) {
+      routerMicrolib.recognizer = new ConstrainedRecognizer(this._constraintsByRoute);
+    }
+
     routerMicrolib.map(dsl.generate());
   }
 
@@ -355,6 +548,18 @@ class EmberRouter extends EmberObject {
           router._engineInfoByRoute[name] = engineInfo;
         }
       },
+      addGuardsForRoute(name: string, guards: string[]) {
+        router._guardsByRoute[name] = guards;
+      },
+      addLoaderForRoute(name: string, loader: RouteLoader) {
+        router._loaderByRoute[name] = loader;
+      },
+      addRedirect(name: string, redirect: RouteRedirect) {
+        router._redirects[name] = redirect;
+      },
+      addConstraintsForRoute(name: string, constraints: ParamConstraints) {
+        router._constraintsByRoute[name] = constraints;
+      },
     };
 
     return new DSL(null, options);
@@ -416,10 +621,26 @@ class EmberRouter extends EmberObject {
 
     this._initRouterJs();
 
+    if (EMBER_ROUTING_NAMED_ROUTERS && this._routerName === undefined) {
+      setupNamedRouters(this);
+    }
+
     location.onUpdateURL((url: string) => {
       this.handleURL(url);
     });
 
+    if (EMBER_ROUTING_CAN_EXIT && this.confirmBeforeUnload && hasDOM) {
+      this._beforeUnloadHandler = (event: BeforeUnloadEvent) => {
+        if (!canUnload(this)) {
+          event.preventDefault();
+          // Older browsers only ask when a return value is set.
+          event.returnValue = '';
+        }
+      };
+
+      window.addEventListener('beforeunload', this._beforeUnloadHandler);
+    }
+
     return true;
   }
 
@@ -431,6 +652,10 @@ class EmberRouter extends EmberObject {
       return;
     }
 
+    if (EMBER_ROUTING_SUBSTATE_CONFIGURATION && this._delayOutlets()) {
+      return;
+    }
+
     let routeInfos = this._routerMicrolib.currentRouteInfos;
     let route: Route | undefined;
     let defaultParentState: OutletState;
@@ -479,6 +704,10 @@ class EmberRouter extends EmberObject {
     } else {
       this._toplevelView.setOutletState(liveRoutes);
     }
+
+    if (EMBER_GLIMMER_STREAMING) {
+      streamOutlets(this);
+    }
   }
 
   handleURL(url: string) {
@@ -489,11 +718,60 @@ class EmberRouter extends EmberObject {
   }
 
   _doURLTransition(routerJsMethod: string, url: string) {
-    let transition = this._routerMicrolib[routerJsMethod](url || '/');
+    let _url = url || '/';
+
+    if (EMBER_ROUTING_MAP_REDIRECTS) {
+      _url = this._redirectedURL(_url);
+    }
+
+    let transition = this._routerMicrolib[routerJsMethod](_url);
+
+    if (EMBER_ROUTING_MAP_REDIRECTS && routerJsMethod === 'handleURL' && _url !== (url || '/')) {
+      // The location shows the redirected URL, which is replaced by the URL of
+      // the route it redirects to.
+      transition.method('replace');
+    }
+
     didBeginTransition(transition, this);
     return transition;
   }
 
+  /*
+    The URL of the route the URL leads to when it is the path of a redirect,
+    with the dynamic segments of the redirect and its query string, or the URL
+    itself otherwise.
+
+    @private
+  */
+  _redirectedURL(url: string): string {
+    let recognizer = this._routerMicrolib.recognizer;
+    let results = recognizer.recognize(url);
+
+    if (results === undefined || results.length === 0) {
+      return url;
+    }
+
+    let redirect = this._redirects[results[results.length - 1]!.handler as string];
+
+    if (redirect === undefined) {
+      return url;
+    }
+
+    let params = {};
+    for (let i = 0; i < results.length; i++) {
+      assign(params, results[i]!.params);
+    }
+
+    for (let name in redirect.params) {
+      params[redirect.params[name]] = params[name];
+    }
+
+    let queryIndex = url.indexOf('?');
+    let queryString = queryIndex === -1 ? '' : url.slice(queryIndex);
+
+    return recognizer.generate(redirect.to, params) + queryString;
+  }
+
   /**
     Transition the application into another route. The route may
     be either a single route or route path:
@@ -617,12 +895,31 @@ class EmberRouter extends EmberObject {
 
     this.reset();
 
+    if (EMBER_ROUTING_SUBSTATE_CONFIGURATION) {
+      this._cancelLoadingDurationTimer();
+    }
+
+    if (this._beforeUnloadHandler !== undefined) {
+      window.removeEventListener('beforeunload', this._beforeUnloadHandler);
+      this._beforeUnloadHandler = undefined;
+    }
+
     let instances = this._engineInstances;
     for (let name in instances) {
       for (let id in instances[name]) {
         run(instances[name][id], 'destroy');
       }
     }
+
+    if (EMBER_ROUTING_NAMED_ROUTERS) {
+      this._namedRouters.forEach(namedRouter => {
+        let location = get(namedRouter, 'location') as IEmberLocation;
+
+        run(namedRouter, 'destroy');
+        run(location, 'destroy');
+      });
+      this._namedRouters = [];
+    }
   }
 
   /*
@@ -717,7 +1014,7 @@ class EmberRouter extends EmberObject {
       (key: string, value: unknown, qp: QueryParam) => {
         if (qp) {
           delete queryParams[key];
-          queryParams[qp.urlKey] = qp.route.serializeQueryParam(value, qp.urlKey, qp.type);
+          queryParams[qp.urlKey] = qp.route._serializeQueryParamValue(value, qp);
         } else if (value === undefined) {
           return; // We don't serialize undefined values
         } else {
@@ -764,7 +1061,7 @@ class EmberRouter extends EmberObject {
         // because all values will be treated as strings
         if (qp) {
           delete queryParams[key];
-          queryParams[qp.prop] = qp.route.deserializeQueryParam(value, qp.urlKey, qp.type);
+          queryParams[qp.prop] = qp.route._deserializeQueryParamValue(value, qp);
         }
       }
     );
@@ -1086,6 +1383,18 @@ class EmberRouter extends EmberObject {
 
   _scheduleLoadingEvent(transition: Transition, originRoute: Route) {
     this._cancelSlowTransitionTimer();
+
+    if (EMBER_ROUTING_SUBSTATE_CONFIGURATION && this.loadingDelay > 0) {
+      this._slowTransitionTimer = later(
+        this,
+        '_handleSlowTransition',
+        transition,
+        originRoute,
+        this.loadingDelay
+      );
+      return;
+    }
+
     this._slowTransitionTimer = scheduleOnce(
       'routerTransitions',
       this,
@@ -1095,6 +1404,193 @@ class EmberRouter extends EmberObject {
     );
   }
 
+  /*
+    Runs the loader of a lazy route once, even when several routes of the same
+    bundle are looked up during a transition. A rejected loader is retried by
+    the next transition.
+
+    @private
+  */
+  _loadRoutes(loader: RouteLoader): Promise<void> {
+    let pending = this._pendingLoaders.get(loader);
+
+    if (pending === undefined) {
+      pending = RSVP.resolve(loader()).then(
+        () => {
+          this._pendingLoaders.delete(loader);
+          this._settledLoaders.add(loader);
+        },
+        (error: unknown) => {
+          this._pendingLoaders.delete(loader);
+          throw error;
+        }
+      );
+      this._pendingLoaders.set(loader, pending);
+
+      once(this, this._scheduleLazyRouteLoadingEvent);
+    }
+
+    return pending;
+  }
+
+  /*
+    Loading a lazy route does not run any of its hooks, so `willResolveModel`
+    does not fire in the meantime. This schedules the `loading` event for the
+    active transition instead, originating from the last route that is already
+    available.
+
+    @private
+  */
+  _scheduleLazyRouteLoadingEvent() {
+    let transition = this._routerMicrolib.activeTransition;
+
+    if (!transition) {
+      return;
+    }
+
+    let originRoute: Route | undefined;
+    for (let routeInfo of transition[STATE_SYMBOL]!.routeInfos) {
+      let route = routeInfo.route;
+      if (route === undefined) {
+        break;
+      }
+      originRoute = route;
+    }
+
+    if (originRoute !== undefined) {
+      this._scheduleLoadingEvent(transition, originRoute);
+    }
+  }
+
+  /*
+    Runs the `prefetch` hook of every route whose `model` hook a transition to
+    `routeName` with `models` and `queryParams` would call, keeping the
+    results until the routes are entered with the same params.
+
+    @private
+  */
+  _prefetch(routeName: string, models: {}[], queryParams: {} = {}): Promise<void> {
+    let state;
+    let transitionQueryParams = assign({}, queryParams) as QueryParam;
+
+    try {
+      state = this._routerMicrolib.applyIntent(routeName, models);
+      this._prepareQueryParams(routeName, models, transitionQueryParams);
+    } catch (error) {
+      // The destination cannot be resolved, e.g. while a model is missing.
+      return RSVP.resolve();
+    }
+
+    let prefetches = state.routeInfos
+      // Active routes keep their models, and routes given a model by the link
+      // do not call their `model` hook.
+      .filter(routeInfo => !routeInfo.isResolved && !('context' in routeInfo))
+      .map(routeInfo =>
+        RSVP.resolve(routeInfo.routePromise).then(route => {
+          let key = prefetchKey(route, routeInfo.params, transitionQueryParams);
+
+          if (this._prefetchedModels.has(key)) {
+            return;
+          }
+
+          let result = route['prefetch'](routeInfo.params);
+
+          if (result === undefined) {
+            return;
+          }
+
+          let prefetched = RSVP.resolve(result);
+          this._prefetchedModels.set(key, prefetched);
+
+          return prefetched.catch(() => {
+            // The `model` hook runs as usual after a failed prefetch.
+            if (this._prefetchedModels.get(key) === prefetched) {
+              this._prefetchedModels.delete(key);
+            }
+          });
+        })
+      );
+
+    return RSVP.all(prefetches).then(() => undefined, () => undefined);
+  }
+
+  /*
+    Returns the model prefetched for the route with these params, if any. It
+    is only used once.
+
+    @private
+  */
+  _takePrefetchedModel(route: Route, params: {}): Promise<unknown> | undefined {
+    let key = prefetchKey(route, params, params['queryParams'] || {});
+    let prefetched = this._prefetchedModels.get(key);
+
+    this._prefetchedModels.delete(key);
+
+    return prefetched;
+  }
+
+  /*
+    Returns the model cached for the route with these params according to the
+    route's `modelCache` policy, or caches the model returned by `load`.
+
+    @private
+  */
+  _cachedModel(route: Route, params: {}, load: () => unknown): unknown {
+    let policy: ModelCachePolicy = get(route, 'modelCache');
+
+    if (policy === 'none') {
+      return load();
+    }
+
+    let routeName = route.fullRouteName;
+    let key = paramsKey(routeName, params);
+    let cached = this._cachedModels.get(key);
+
+    if (cached !== undefined) {
+      if (policy === 'session' || Date.now() - cached.cachedAt < policy.maxAge) {
+        return cached.model;
+      }
+
+      this._cachedModels.delete(key);
+    }
+
+    let model = load();
+
+    // A route redirecting from its `model` hook has no model to cache.
+    if (model instanceof InternalTransition) {
+      return model;
+    }
+
+    let entry = { routeName, params, model: RSVP.resolve(model), cachedAt: Date.now() };
+    this._cachedModels.set(key, entry);
+
+    entry.model.catch(() => {
+      if (this._cachedModels.get(key) === entry) {
+        this._cachedModels.delete(key);
+      }
+    });
+
+    return model;
+  }
+
+  /*
+    Discards the cached models of the route, or only those whose params
+    include the given ones.
+
+    @private
+  */
+  _invalidateModel(routeName: string, params?: {}) {
+    this._cachedModels.forEach((entry, key) => {
+      if (entry.routeName !== routeName) {
+        return;
+      }
+
+      if (params === undefined || paramsMatch(entry.params, params)) {
+        this._cachedModels.delete(key);
+      }
+    });
+  }
+
   currentState: null | RouterState = null;
   targetState = null;
 
@@ -1114,6 +1610,43 @@ class EmberRouter extends EmberObject {
     transition.trigger(true, 'loading', transition, originRoute);
   }
 
+  /*
+    Keeps a loading substate the router entered displayed for
+    `loadingMinimumDuration`, by rendering the routes of the transition that
+    resolved in the meantime once that time has passed. Returns whether the
+    outlets are set later.
+
+    @private
+  */
+  _delayOutlets() {
+    this._cancelLoadingDurationTimer();
+
+    let enteredAt = this._loadingSubstateEnteredAt;
+
+    // The loading substate itself is rendered while the transition is active.
+    if (enteredAt === undefined || this._routerMicrolib.activeTransition !== undefined) {
+      return false;
+    }
+
+    let remaining = this.loadingMinimumDuration - (Date.now() - enteredAt);
+
+    if (remaining > 0) {
+      this._loadingDurationTimer = later(this, '_setOutlets', remaining);
+      return true;
+    }
+
+    this._loadingSubstateEnteredAt = undefined;
+
+    return false;
+  }
+
+  _cancelLoadingDurationTimer() {
+    if (this._loadingDurationTimer) {
+      cancel(this._loadingDurationTimer);
+    }
+    this._loadingDurationTimer = null;
+  }
+
   _cancelSlowTransitionTimer() {
     if (this._slowTransitionTimer) {
       cancel(this._slowTransitionTimer);
@@ -1231,6 +1764,7 @@ let defaultActionHandlers = {
     let router: any = this;
 
     let routeInfoWithError = routeInfos[routeInfos.length - 1];
+    let handled = false;
 
     forEachRouteAbove(routeInfos, (route: Route, routeInfo: PrivateRouteInfo) => {
       // We don't check the leaf most routeInfo since that would
@@ -1241,6 +1775,7 @@ let defaultActionHandlers = {
         if (errorRouteName) {
           router._markErrorAsHandled(error);
           router.intermediateTransitionTo(errorRouteName, error);
+          handled = true;
           return false;
         }
       }
@@ -1250,12 +1785,18 @@ let defaultActionHandlers = {
       if (errorSubstateName) {
         router._markErrorAsHandled(error);
         router.intermediateTransitionTo(errorSubstateName, error);
+        handled = true;
         return false;
       }
 
       return true;
     });
 
+    if (EMBER_ROUTING_SUBSTATE_CONFIGURATION && !handled && router.defaultErrorRoute) {
+      router._markErrorAsHandled(error);
+      router.intermediateTransitionTo(router.defaultErrorRoute, error);
+    }
+
     logError(error, `Error while processing route: ${transition.targetName}`);
   },
 
@@ -1265,6 +1806,19 @@ let defaultActionHandlers = {
 
     let routeInfoWithSlowLoading = routeInfos[routeInfos.length - 1];
 
+    // A lazy route that is still loading has no route instance to look its
+    // substates up from, so its `_loading` substate is looked up by name.
+    if (EMBER_ROUTING_LAZY_ROUTES && routeInfoWithSlowLoading.route === undefined) {
+      let loadingSubstateName = `${routeInfoWithSlowLoading.name}_loading`;
+
+      if (routeHasBeenDefined(getOwner(router), router, loadingSubstateName, loadingSubstateName)) {
+        enterLoadingSubstate(router, loadingSubstateName);
+        return;
+      }
+    }
+
+    let handled = false;
+
     forEachRouteAbove(routeInfos, (route: Route, routeInfo: PrivateRouteInfo) => {
       // We don't check the leaf most routeInfos since that would
       // technically be below where we're at in the route hierarchy.
@@ -1272,7 +1826,8 @@ let defaultActionHandlers = {
         // Check for the existence of a 'loading' route.
         let loadingRouteName = findRouteStateName(route, 'loading');
         if (loadingRouteName) {
-          router.intermediateTransitionTo(loadingRouteName);
+          enterLoadingSubstate(router, loadingRouteName);
+          handled = true;
           return false;
         }
       }
@@ -1280,13 +1835,18 @@ let defaultActionHandlers = {
       // Check for loading substate
       let loadingSubstateName = findRouteSubstateName(route, 'loading');
       if (loadingSubstateName) {
-        router.intermediateTransitionTo(loadingSubstateName);
+        enterLoadingSubstate(router, loadingSubstateName);
+        handled = true;
         return false;
       }
 
       // Don't bubble above pivot route.
       return (transition.pivotHandler as any) !== route;
     });
+
+    if (EMBER_ROUTING_SUBSTATE_CONFIGURATION && !handled && router.defaultLoadingRoute) {
+      enterLoadingSubstate(router, router.defaultLoadingRoute);
+    }
   },
 };
 
@@ -1319,37 +1879,783 @@ function logError(_error: any, initialMessage: string) {
   console.error(...errorArgs); //eslint-disable-line no-console
 }
 
-/**
-  Finds the name of the substate route if it exists for the given route. A
-  substate route is of the form `route_state`, such as `foo_loading`.
+interface BootEnvironment {
+  _renderMode?: string;
+}
+
+/*
+  Tells the outlet stream of a render in the `stream` mode that the outlets of
+  the router changed. While a transition is active, the route the router
+  rendered last is the loading substate standing in for the routes still
+  waiting for their models.
 
   @private
-  @param {Route} route
-  @param {String} state
-  @return {String}
 */
-function findRouteSubstateName(route: Route, state: string) {
-  let owner = getOwner(route);
-  let { routeName, fullRouteName, _router: router } = route;
+function streamOutlets(router: EmberRouter) {
+  let owner = getOwner(router);
+  let environment = owner.lookup<BootEnvironment>('-environment:main');
 
-  let substateName = `${routeName}_${state}`;
-  let substateNameFull = `${fullRouteName}_${state}`;
+  if (environment === undefined || environment._renderMode !== 'stream') {
+    return;
+  }
 
-  return routeHasBeenDefined(owner, router, substateName, substateNameFull) ? substateNameFull : '';
+  let { activeTransition, currentRouteInfos } = router._routerMicrolib;
+  let loadingRoutes: string[] = [];
+
+  if (activeTransition !== undefined && currentRouteInfos) {
+    loadingRoutes.push(currentRouteInfos[currentRouteInfos.length - 1].name);
+  }
+
+  owner.lookup<any>('service:-outlet-stream').didSetOutlets(router, loadingRoutes);
 }
 
-/**
-  Finds the name of the state route if it exists for the given route. A state
-  route is of the form `route.state`, such as `foo.loading`. Properly Handles
-  `application` named routes.
+/*
+  Enters a loading substate, remembering when for `loadingMinimumDuration`.
 
   @private
-  @param {Route} route
-  @param {String} state
-  @return {String}
 */
-function findRouteStateName(route: Route, state: string) {
-  let owner = getOwner(route);
+function enterLoadingSubstate(router: EmberRouter, name: string) {
+  router.intermediateTransitionTo(name);
+
+  if (EMBER_ROUTING_SUBSTATE_CONFIGURATION && router._loadingSubstateEnteredAt === undefined) {
+    router._loadingSubstateEnteredAt = Date.now();
+  }
+}
+
+export interface Guard {
+  check(transition: Transition): GuardResult | PromiseLike<GuardResult>;
+}
+
+export type GuardResult =
+  | boolean
+  | undefined
+  | { abort: unknown }
+  | { redirectTo: string | unknown[] };
+
+export interface GuardRejection {
+  guard: string;
+  reason?: unknown;
+  redirect?: Transition;
+}
+
+/*
+  Collects the guards of the routes a transition enters while the router
+  creates it, and checks them once the transition exists. Until then, the
+  guarded routes are handed to router.js as a promise, which it waits for
+  before running any of their hooks.
+
+  @private
+*/
+class GuardCheck {
+  guards: string[] = [];
+  promise: Promise<void>;
+  private done!: () => void;
+  private failed!: (error: unknown) => void;
+
+  constructor(private router: EmberRouter) {
+    this.promise = new RSVP.Promise<void>((resolve, reject) => {
+      this.done = resolve;
+      this.failed = reject;
+    });
+  }
+
+  add(guards: string[]) {
+    for (let i = 0; i < guards.length; i++) {
+      if (this.guards.indexOf(guards[i]) === -1) {
+        this.guards.push(guards[i]);
+      }
+    }
+  }
+
+  run(transition: Transition) {
+    // An aborted transition still lets its routes resolve, router.js stops
+    // before their hooks once it sees the abort.
+    let result = transition.isAborted
+      ? undefined
+      : runGuards(this.router, this.guards, 0, transition);
+
+    if (result === undefined) {
+      this.done();
+    } else {
+      result.then(this.done, this.failed);
+    }
+  }
+}
+
+/*
+  Runs the guards starting at `index` in order. Returns a promise when a
+  guard answered asynchronously, `undefined` otherwise.
+
+  @private
+*/
+function runGuards(
+  router: EmberRouter,
+  guards: string[],
+  index: number,
+  transition: Transition
+): PromiseLike<void> | undefined {
+  for (let i = index; i < guards.length; i++) {
+    let name = guards[i];
+    let result = lookupGuard(router, name).check(transition);
+
+    if (result !== null && typeof result === 'object' && typeof result['then'] === 'function') {
+      return (result as PromiseLike<GuardResult>).then(value => {
+        if (applyGuardResult(router, name, value, transition)) {
+          return runGuards(router, guards, i + 1, transition);
+        }
+        return;
+      });
+    }
+
+    if (!applyGuardResult(router, name, result as GuardResult, transition)) {
+      return;
+    }
+  }
+
+  return;
+}
+
+function lookupGuard(router: EmberRouter, name: string): Guard {
+  let guard: Guard | undefined = getOwner(router).lookup(`guard:${name}`);
+
+  assert(
+    `The guard '${name}' could not be found. Make sure it is registered as 'guard:${name}'.`,
+    Boolean(guard)
+  );
+  assert(
+    `The guard '${name}' must implement a \`check\` method.`,
+    typeof guard!.check === 'function'
+  );
+
+  return guard!;
+}
+
+/*
+  Applies the answer of a guard to the transition and returns whether the
+  transition may continue.
+
+  @private
+*/
+function applyGuardResult(
+  router: EmberRouter,
+  name: string,
+  result: GuardResult,
+  transition: Transition
+) {
+  if (transition.isAborted) {
+    return false;
+  }
+
+  if (result === undefined || result === true) {
+    return true;
+  }
+
+  let rejection: GuardRejection = { guard: name };
+
+  if (result !== false && 'redirectTo' in result) {
+    let args = Array.isArray(result.redirectTo) ? result.redirectTo : [result.redirectTo];
+    transition['guardRejection'] = rejection;
+    rejection.redirect = withAbortReason(router, 'guard', () => router.transitionTo(...args));
+  } else {
+    if (result !== false) {
+      rejection.reason = result.abort;
+    }
+    transition['guardRejection'] = rejection;
+    withAbortReason(router, 'guard', () => transition.abort());
+  }
+
+  return false;
+}
+
+type TransitionIntent = Parameters<Router<Route>['transitionByIntent']>[0];
+
+/*
+  Asks the active routes the transition exits whether they can be exited,
+  deepest first, before it resolves anything. A route that allowed it is not
+  asked again when the transition is redirected.
+
+  The transition is aborted as soon as a route answers `false`. While a route
+  answers with a promise it is aborted too, and retried once all the routes
+  allowed it. The URL of a transition started by the back or forward buttons,
+  which the location already shows, is replaced with the current one.
+
+  @private
+*/
+function confirmExit(router: EmberRouter, transition: Transition) {
+  // Substates and query param changes have no intent and exit no route.
+  if (transition.intent === undefined || transition.isAborted) {
+    return;
+  }
+
+  let routes = routesToConfirm(router, transition);
+  let { state } = router._routerMicrolib;
+
+  for (let i = 0; i < routes.length; i++) {
+    let result = routes[i]['canExit'](transition);
+
+    if (result !== null && typeof result === 'object' && typeof result['then'] === 'function') {
+      let restored = restoreURL(router);
+      transition.abort();
+
+      RSVP.resolve(result).then(value => {
+        let routerMicrolib = router._routerMicrolib;
+
+        // Another transition started while asking.
+        if (
+          value === false ||
+          routerMicrolib.activeTransition !== undefined ||
+          routerMicrolib.state !== state
+        ) {
+          return;
+        }
+
+        // Aborting forgot about the routes that allowed the transition.
+        routes.slice(0, i + 1).forEach(route => router._confirmedExits.add(route));
+
+        // Unlike `retry()`, this does not abort the transition again.
+        let retry = routerMicrolib.transitionByIntent(transition.intent as TransitionIntent, false);
+        let urlMethod = restored ? 'replace' : transition.urlMethod;
+        if (urlMethod !== null) {
+          retry.method(urlMethod);
+        }
+      });
+
+      return;
+    }
+
+    if (result === false) {
+      restoreURL(router);
+      transition.abort();
+      return;
+    }
+
+    router._confirmedExits.add(routes[i]);
+  }
+}
+
+/*
+  The active routes the transition exits that implement `canExit` and have not
+  allowed it yet, deepest first.
+
+  @private
+*/
+function routesToConfirm(router: EmberRouter, transition: Transition): Route[] {
+  let current = router._routerMicrolib.state;
+  if (current === undefined) {
+    return [];
+  }
+
+  let entered = transition[STATE_SYMBOL]!.routeInfos.map(routeInfo => routeInfo.name);
+
+  return current.routeInfos
+    .filter(routeInfo => entered.indexOf(routeInfo.name) === -1)
+    .map(routeInfo => routeInfo.route!)
+    .filter(route => !hasDefaultCanExit(route) && !router._confirmedExits.has(route))
+    .reverse();
+}
+
+/*
+  Shows the current URL again when the location already shows another one.
+  Returns whether it did.
+
+  @private
+*/
+function restoreURL(router: EmberRouter) {
+  let location = get(router, 'location') as IEmberLocation;
+  let { currentURL } = router;
+
+  if (!currentURL || location.getURL() === currentURL) {
+    return false;
+  }
+
+  if (location.replaceURL) {
+    location.replaceURL(currentURL);
+  } else {
+    location.setURL(currentURL);
+  }
+
+  return true;
+}
+
+/*
+  Whether the active routes can be exited when the page is unloaded, which
+  does not leave them time to answer asynchronously.
+
+  @private
+*/
+function canUnload(router: EmberRouter) {
+  let routeInfos = router._routerMicrolib.currentRouteInfos || [];
+
+  return routeInfos.every(routeInfo => {
+    let route = routeInfo.route!;
+    return hasDefaultCanExit(route) || route['canExit'](null) !== false;
+  });
+}
+
+type RecognizerRoutes = Parameters<RouteRecognizer['add']>[0];
+
+/*
+  A recognizer that skips the routes whose params do not satisfy their
+  constraints, and, in debug builds, asserts that generated URLs satisfy them.
+
+  The recognizer only answers with the best match, so when the params of that
+  match do not satisfy the constraints, the URL is recognized again without the
+  route of that match, until the match satisfies them or there is none.
+
+  @private
+*/
+class ConstrainedRecognizer extends RouteRecognizer {
+  private routes: [RecognizerRoutes, { as: string } | undefined][] = [];
+  private fallbacks: { [excluded: string]: RouteRecognizer } = Object.create(null);
+
+  constructor(private constraintsByRoute: { [name: string]: ParamConstraints }) {
+    super();
+  }
+
+  add(routes: RecognizerRoutes, options?: { as: string }) {
+    this.routes.push([routes, options]);
+    this.fallbacks = Object.create(null);
+    super.add(routes, options);
+  }
+
+  recognize(path: string): Results | undefined {
+    let excluded: string[] = [];
+    let results = super.recognize(path);
+
+    while (results !== undefined && !this.satisfiesConstraints(results)) {
+      excluded.push(results[results.length - 1]!.handler as string);
+      results = this.fallback(excluded).recognize(path);
+    }
+
+    return results;
+  }
+
+  generate(name: string, params?: Params | null) {
+    if (DEBUG) {
+      this.handlersFor(name).forEach(({ handler }) => {
+        let constraints = this.constraintsByRoute[handler] || {};
+
+        Object.keys(constraints).forEach(param => {
+          let value = params ? params[param] : undefined;
+
+          assert(
+            `The '${param}' param of the '${handler}' route must satisfy its constraint, but it is '${value}'.`,
+            value === undefined || satisfiesConstraint(constraints[param], value)
+          );
+        });
+      });
+    }
+
+    return super.generate(name, params);
+  }
+
+  private satisfiesConstraints(results: Results) {
+    for (let i = 0; i < results.length; i++) {
+      let { handler, params } = results[i]!;
+      let constraints = this.constraintsByRoute[handler as string];
+
+      for (let param in constraints) {
+        if (param in params && !satisfiesConstraint(constraints[param], params[param])) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /*
+    A recognizer with the routes of this one but the excluded ones, which are
+    identified by the name of their leaf route.
+  */
+  private fallback(excluded: string[]): RouteRecognizer {
+    let key = excluded.join(',');
+    let fallback = this.fallbacks[key];
+
+    if (fallback === undefined) {
+      fallback = this.fallbacks[key] = new RouteRecognizer();
+
+      this.routes.forEach(([routes, options]) => {
+        if (excluded.indexOf(routes[routes.length - 1].handler as string) === -1) {
+          fallback!.add(routes, options);
+        }
+      });
+    }
+
+    return fallback;
+  }
+}
+
+function satisfiesConstraint(constraint: ParamConstraint, value: unknown) {
+  let string = String(value);
+  return typeof constraint === 'function' ? constraint(string) : constraint.test(string);
+}
+
+interface CachedModel {
+  routeName: string;
+  params: {};
+  model: Promise<unknown>;
+  cachedAt: number;
+}
+
+/*
+  Identifies the params and query params of a route independently of the order
+  of their keys, and of the values being given as numbers or strings.
+
+  @private
+*/
+function paramsKey(routeName: string, params: {}, queryParams: {} = {}) {
+  return JSON.stringify([routeName, paramEntries(params), paramEntries(queryParams)]);
+}
+
+function paramEntries(params: {}) {
+  let names = Object.keys(params)
+    .filter(name => name !== 'queryParams')
+    .sort();
+
+  return names.map(name => [name, paramValueKey(params[name])]);
+}
+
+/*
+  Identifies the params of a route together with the query params that refresh
+  its model, which take their default values when they are left out.
+
+  @private
+*/
+function prefetchKey(route: Route, params: {}, queryParams: {}) {
+  let refreshModelParams = {};
+
+  get(route, '_qp').qps.forEach((qp: QueryParam) => {
+    if (get(route._optionsForQueryParam(qp), 'refreshModel')) {
+      refreshModelParams[qp.urlKey] =
+        qp.urlKey in queryParams ? queryParams[qp.urlKey] : qp.serializedDefaultValue;
+    }
+  });
+
+  return paramsKey(route.fullRouteName, params, refreshModelParams);
+}
+
+function paramValueKey(value: unknown) {
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/*
+  Whether `params` has all of the `expected` params, with the same values.
+
+  @private
+*/
+function paramsMatch(params: {}, expected: {}) {
+  return Object.keys(expected).every(
+    name => name in params && paramValueKey(params[name]) === paramValueKey(expected[name])
+  );
+}
+
+export type AbortReasonType = 'superseded' | 'redirected' | 'aborted' | 'guard' | 'error';
+
+export interface AbortReason {
+  type: AbortReasonType;
+  transition?: Transition;
+}
+
+/*
+  Runs the callback with `type` as the reason for any transition it aborts,
+  either directly or by starting a new transition.
+
+  @private
+*/
+export function withAbortReason<T>(
+  router: Pick<EmberRouter, '_abortReasonType'>,
+  type: AbortReasonType,
+  callback: () => T
+): T {
+  let previous = router._abortReasonType;
+  router._abortReasonType = type;
+
+  try {
+    return callback();
+  } finally {
+    router._abortReasonType = previous;
+  }
+}
+
+interface RouteTiming {
+  name: string;
+  routeName: string;
+  startTime: number;
+  duration: number;
+}
+
+/*
+  Calls a hook of the route, measuring it until the promise it returns
+  settles.
+
+  @private
+*/
+export function measureRouteHook<T>(
+  name: string,
+  route: Route,
+  transition: Transition | undefined,
+  hook: () => T
+): T {
+  let finish = startTiming(name, route.fullRouteName, transition);
+  let result;
+
+  try {
+    result = hook();
+  } catch (error) {
+    finish();
+    throw error;
+  }
+
+  if (
+    result !== null &&
+    typeof result === 'object' &&
+    typeof result['then'] === 'function' &&
+    !(result instanceof InternalTransition)
+  ) {
+    ((result as unknown) as PromiseLike<unknown>).then(finish, finish);
+  } else {
+    finish();
+  }
+
+  return result;
+}
+
+interface MeasuredRouteInfo {
+  route: Route | undefined;
+  runBeforeModelHook(transition: Transition): Promise<unknown>;
+  runAfterModelHook(transition: Transition, resolvedModel: unknown): Promise<unknown>;
+}
+
+function measureRouteInfoHook<T>(
+  name: string,
+  routeInfo: MeasuredRouteInfo,
+  transition: Transition,
+  hook: () => T
+): T {
+  let { route } = routeInfo;
+  return route === undefined ? hook() : measureRouteHook(name, route, transition, hook);
+}
+
+if (EMBER_ROUTING_INSTRUMENTATION) {
+  // router.js calls the `beforeModel` and `afterModel` hooks of the routes
+  // itself, so they are measured where its route infos run them.
+  let routeInfo = (InternalRouteInfo.prototype as unknown) as MeasuredRouteInfo;
+  let { runBeforeModelHook, runAfterModelHook } = routeInfo;
+
+  routeInfo.runBeforeModelHook = function(this: MeasuredRouteInfo, transition) {
+    return measureRouteInfoHook('route.beforeModel', this, transition, () =>
+      runBeforeModelHook.call(this, transition)
+    );
+  };
+
+  routeInfo.runAfterModelHook = function(this: MeasuredRouteInfo, transition, resolvedModel) {
+    return measureRouteInfoHook('route.afterModel', this, transition, () =>
+      runAfterModelHook.call(this, transition, resolvedModel)
+    );
+  };
+}
+
+function routeTimingPayload(payload: { routeName: string; transition?: Transition }) {
+  return {
+    object: payload.routeName,
+    routeName: payload.routeName,
+    transition: payload.transition,
+  };
+}
+
+/*
+  Starts measuring, publishing the measure through `@ember/instrumentation`
+  and adding it to the timings of the transition once the returned function
+  is called.
+
+  @private
+*/
+function startTiming(name: string, routeName: string, transition?: Transition) {
+  let finalize = _instrumentStart(name, routeTimingPayload, { routeName, transition });
+  let startTime = _time();
+  let finished = false;
+
+  return () => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+
+    finalize();
+
+    if (transition !== undefined) {
+      let timings: RouteTiming[] = transition['timings'] || (transition['timings'] = []);
+      timings.push({ name, routeName, startTime, duration: _time() - startTime });
+    }
+  };
+}
+
+/*
+  Starts the routers declared with `Router.mapRouter` along with the router of
+  the application. Each of them is registered as `-router:<name>` and gets a
+  router service registered as `router:<name>`.
+
+  @private
+*/
+function setupNamedRouters(router: EmberRouter) {
+  let { routerMaps } = router.constructor as typeof EmberRouter;
+
+  if (routerMaps === undefined) {
+    return;
+  }
+
+  let owner = getOwner(router);
+
+  for (let name in routerMaps) {
+    assert(
+      `The router named '${name}' cannot be set up because the application has a route with the same name.`,
+      !router._routerMicrolib.hasRoute(name)
+    );
+
+    let NamedRouter = EmberRouter.extend({
+      _routerName: name,
+      _bucketCache: router._bucketCache,
+      namespace: get(router, 'namespace'),
+      location: MemoryLocation.create({ path: '/' }),
+    });
+
+    routerMaps[name].forEach(callback => NamedRouter.map(callback));
+
+    owner.register(`-router:${name}`, NamedRouter);
+
+    let namedRouter: EmberRouter = owner.lookup(`-router:${name}`);
+    router._namedRouters.push(namedRouter);
+    let RouterService: any = owner.factoryFor('service:router')!.class;
+
+    owner.register(`router:${name}`, RouterService.extend({ _router: namedRouter }));
+
+    // The view is not appended, `{{router-outlet}}` renders its outlet state.
+    namedRouter._toplevelView = owner.factoryFor('view:-outlet')!.create();
+    namedRouter.startRouting();
+  }
+}
+
+/*
+  The reason for a call to `abort()`, which is explicit unless a guard or an
+  error caused it.
+
+  @private
+*/
+function abortReasonType(router: EmberRouter): AbortReasonType {
+  let type = router._abortReasonType;
+  return type === 'guard' || type === 'error' ? type : 'aborted';
+}
+
+/*
+  The reason for the transitions a route starts, which redirect the active
+  transition while it is entering or updating the route, as only the hooks of
+  the route run then. Otherwise they supersede it.
+
+  @private
+*/
+export function routeTransitionReason(router: EmberRouter, route: Route): AbortReasonType {
+  let routerMicrolib = router._routerMicrolib;
+
+  // Routes can transition before the router set up router.js.
+  if (routerMicrolib === undefined || routerMicrolib.activeTransition === undefined) {
+    return 'superseded';
+  }
+
+  let transition = routerMicrolib.activeTransition;
+
+  let state = transition[STATE_SYMBOL]!;
+  // The router moves to the state of the transition before setting up its
+  // routes.
+  let from = routerMicrolib.state === state ? routerMicrolib.oldState : routerMicrolib.state;
+  let fromRouteInfos = from ? from.routeInfos : [];
+
+  for (let i = 0; i < state.routeInfos.length; i++) {
+    if (state.routeInfos[i].name === route.fullRouteName) {
+      return state.routeInfos[i] === fromRouteInfos[i] ? 'superseded' : 'redirected';
+    }
+  }
+
+  return 'superseded';
+}
+
+/*
+  Records why the pending transition was aborted, once router_js announces
+  what takes its place: a new transition when it is superseded or redirected,
+  or an aborted transition back to where it started when `abort()` is called
+  on it.
+
+  @private
+*/
+function recordAbort(router: EmberRouter, transition: Transition) {
+  let pending = router._pendingTransition;
+
+  if (pending !== undefined && pending !== transition && pending.isAborted) {
+    router._pendingTransition = undefined;
+
+    if (transition.isAborted) {
+      setAbortReason(router, pending, abortReasonType(router));
+    } else {
+      setAbortReason(router, pending, router._abortReasonType || 'superseded', transition);
+    }
+  }
+
+  // Substates and query param changes have no intent and cannot be aborted.
+  if (transition.intent !== undefined && !transition.isAborted) {
+    router._pendingTransition = transition;
+  }
+}
+
+function setAbortReason(
+  router: EmberRouter,
+  transition: Transition,
+  type: AbortReasonType,
+  supersedingTransition?: Transition
+) {
+  if (transition['abortReason'] !== undefined) {
+    return;
+  }
+
+  let reason: AbortReason = { type };
+  if (supersedingTransition !== undefined) {
+    reason.transition = supersedingTransition;
+  }
+
+  transition['abortReason'] = reason;
+  router.trigger('routeDidAbort', transition);
+}
+
+/**
+  Finds the name of the substate route if it exists for the given route. A
+  substate route is of the form `route_state`, such as `foo_loading`.
+
+  @private
+  @param {Route} route
+  @param {String} state
+  @return {String}
+*/
+function findRouteSubstateName(route: Route, state: string) {
+  let owner = getOwner(route);
+  let { routeName, fullRouteName, _router: router } = route;
+
+  let substateName = `${routeName}_${state}`;
+  let substateNameFull = `${fullRouteName}_${state}`;
+
+  return routeHasBeenDefined(owner, router, substateName, substateNameFull) ? substateNameFull : '';
+}
+
+/**
+  Finds the name of the state route if it exists for the given route. A state
+  route is of the form `route.state`, such as `foo.loading`. Properly Handles
+  `application` named routes.
+
+  @private
+  @param {Route} route
+  @param {String} state
+  @return {String}
+*/
+function findRouteStateName(route: Route, state: string) {
+  let owner = getOwner(route);
   let { routeName, fullRouteName, _router: router } = route;
 
   let stateName = routeName === 'application' ? state : `${routeName}.${state}`;
@@ -1460,6 +2766,10 @@ function updatePaths(router: EmberRouter) {
   set(router, 'currentRouteName', currentRouteName);
   set(router, 'currentURL', currentURL);
 
+  if (EMBER_ROUTING_NAMED_ROUTERS && router._routerName !== undefined) {
+    return;
+  }
+
   let appController = getOwner(router).lookup('controller:application');
 
   if (!appController) {
@@ -1528,6 +2838,39 @@ EmberRouter.reopenClass({
         `resetNamespace: true` will cause the route not to inherit from its
         parent route's names. This is handy for preventing extremely long route names.
         Keep in mind that the actual URL path behavior is still retained.
+      * `guards`: a list of guard names that must allow the transition before the
+        route and any of its children are entered. Each name is looked up as
+        `guard:<name>` and its `check(transition)` method may answer `true` (or
+        nothing) to continue, `false` or `{ abort: reason }` to abort the
+        transition, or `{ redirectTo: 'login' }` to redirect it elsewhere. The
+        answer may be a promise. The router runs the guards of every route a
+        transition enters in order, parents first, before any of their hooks,
+        and a guard shared with a parent route only runs once per transition.
+        The outcome of an aborting or redirecting guard is available as
+        `transition.guardRejection`.
+        This option is only available behind the `ember-routing-transition-guards`
+        feature flag.
+      * `loader`: a function returning a promise that makes the route and its
+        children available, for example by loading a separate bundle that
+        registers their classes and templates. It is called the first time one
+        of these routes is entered and the router waits for it before resolving
+        them, showing the route's `_loading` substate in the meantime. A
+        rejected loader is called again by the next transition.
+        This option is only available behind the `ember-routing-lazy-routes`
+        feature flag.
+      * `paths`: a list of additional paths the route is recognized at, for
+        instance the paths it had before being renamed. The route keeps its
+        `path` when URLs are generated for it. This option is only available
+        behind the `ember-routing-map-redirects` feature flag.
+      * `constraints`: maps the names of the dynamic segments of the route to a
+        regular expression or a function their value must satisfy, like
+        `{ post_id: /^\d+$/ }`. A constraint can also follow the name of the
+        segment in the path, like `'/posts/:post_id(\\d+)'`. URLs whose params
+        do not satisfy the constraints of a route are not recognized as that
+        route, and fall through to the other routes of the map, such as a
+        catch-all route. Generating a URL with such params fails in
+        development. This option is only available behind the
+        `ember-routing-param-constraints` feature flag.
 
     The third parameter is a function, which can be used to nest routes.
     Nested routes, by default, will have the parent route tree's route name and
@@ -1544,6 +2887,23 @@ EmberRouter.reopenClass({
     });
     ```
 
+    Paths that moved can be redirected to the route that now handles them with
+    `this.redirect(path, routeName, options)`. The router recognizes the path
+    as the route it redirects to, which receives the dynamic segments of the
+    path that have the same name as its own. The `params` option maps other
+    dynamic segments to the params of the route, and the URL is replaced with
+    the URL of the route once it is entered.
+
+    ```app/router.js
+    Router.map(function(){
+      this.route('post', { path: '/posts/:post_id', paths: ['/p/:post_id'] });
+      this.redirect('/articles/:id', 'post', { params: { id: 'post_id' } });
+    });
+    ```
+
+    Redirects are only available behind the `ember-routing-map-redirects`
+    feature flag.
+
     @method map
     @param callback
     @public
@@ -1798,4 +3158,174 @@ EmberRouter.reopen(Evented, {
 if (ROUTER_EVENTS) {
   EmberRouter.reopen(ROUTER_EVENT_DEPRECATIONS);
 }
+
+if (EMBER_ROUTING_SUBSTATE_CONFIGURATION) {
+  EmberRouter.reopen({
+    /**
+      The name of the route to enter while a transition is loading, when none
+      of the routes it enters has a loading substate of its own.
+
+      Like the `loading` route of the application, the route is added by the
+      router and must not be part of the router map. It only needs a template,
+      and optionally a route.
+
+      ```app/router.js
+      const Router = EmberRouter.extend({
+        location: config.locationType,
+        rootURL: config.rootURL,
+        defaultLoadingRoute: 'spinner'
+      });
+      ```
+
+      ```app/templates/spinner.hbs
+      <div class="spinner"></div>
+      ```
+
+      @property defaultLoadingRoute
+      @type String
+      @default null
+      @category EMBER_ROUTING_SUBSTATE_CONFIGURATION
+      @public
+    */
+    defaultLoadingRoute: null,
+
+    /**
+      The name of the route to enter when a transition fails, when neither
+      the routes of the transition nor the application have an error route or
+      substate.
+
+      Like the `error` route of the application, the route is added by the
+      router and must not be part of the router map. It receives the error as
+      its model.
+
+      @property defaultErrorRoute
+      @type String
+      @default null
+      @category EMBER_ROUTING_SUBSTATE_CONFIGURATION
+      @public
+    */
+    defaultErrorRoute: null,
+
+    /**
+      The number of milliseconds a transition has to be loading before its
+      loading substate is entered. Transitions that resolve sooner do not
+      display a loading substate at all.
+
+      @property loadingDelay
+      @type Number
+      @default 0
+      @category EMBER_ROUTING_SUBSTATE_CONFIGURATION
+      @public
+    */
+    loadingDelay: 0,
+
+    /**
+      The minimum number of milliseconds a loading substate stays displayed
+      once the router has entered it. When the transition resolves sooner, its
+      routes are set up right away but only rendered once that time has
+      passed, so that the loading substate does not merely flash.
+
+      @property loadingMinimumDuration
+      @type Number
+      @default 0
+      @category EMBER_ROUTING_SUBSTATE_CONFIGURATION
+      @public
+    */
+    loadingMinimumDuration: 0,
+  });
+}
+
+if (EMBER_ROUTING_CAN_EXIT) {
+  EmberRouter.reopen({
+    /**
+      Whether to ask the active routes if they can be exited before the page
+      is unloaded, for instance when it is reloaded or closed. Their
+      [canExit](/ember/release/classes/Route/methods/canExit?anchor=canExit)
+      hook is called with `null`, and when one of them answers `false` the
+      browser asks whether to leave the page.
+
+      ```app/router.js
+      const Router = EmberRouter.extend({
+        location: config.locationType,
+        rootURL: config.rootURL,
+        confirmBeforeUnload: true
+      });
+      ```
+
+      @property confirmBeforeUnload
+      @type Boolean
+      @default false
+      @category EMBER_ROUTING_CAN_EXIT
+      @public
+    */
+    confirmBeforeUnload: false,
+  });
+}
+
+if (EMBER_ROUTING_NAMED_ROUTERS) {
+  EmberRouter.reopenClass({
+    /**
+      The `Router.mapRouter` function declares a named router with a map of its
+      own, for parts of the application such as wizards and side panels that
+      navigate independently of the URL. The named router is started along
+      with the router of the application and keeps its URL in a
+      `MemoryLocation`, so its transitions never change the URL of the page.
+
+      Its routes are nested in a route with the name of the router, which must
+      not be a route of the application.
+
+      ```app/router.js
+      Router.map(function() {
+        this.route('posts');
+      });
+
+      Router.mapRouter('panel', function() {
+        this.route('settings');
+        this.route('help', { path: '/help/:topic' });
+      });
+      ```
+
+      The templates of the routes render into `{{router-outlet "panel"}}`,
+      starting with the `panel` template, and the router is available as
+      `router:panel` with the API of the router service:
+
+      ```app/components/side-panel.js
+      import Component from '@ember/component';
+      import { getOwner } from '@ember/application';
+
+      export default Component.extend({
+        actions: {
+          openSettings() {
+            getOwner(this).lookup('router:panel').transitionTo('panel.settings');
+          }
+        }
+      });
+      ```
+
+      The actions of the templates of a named router bubble through its own
+      routes. The `{{link-to}}` component always uses the router of the
+      application.
+
+      @method mapRouter
+      @param {String} name
+      @param callback
+      @category EMBER_ROUTING_NAMED_ROUTERS
+      @public
+    */
+    mapRouter(name: string, callback: MatchCallback) {
+      if (!this.routerMaps) {
+        this.routerMaps = Object.create(null);
+        this.reopenClass({ routerMaps: this.routerMaps });
+      }
+
+      if (!this.routerMaps[name]) {
+        this.routerMaps[name] = [];
+      }
+
+      this.routerMaps[name].push(callback);
+
+      return this;
+    },
+  });
+}
 export default EmberRouter;
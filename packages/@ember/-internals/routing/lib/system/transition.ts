@@ -34,6 +34,63 @@
   @public
 */
 
+/**
+  Why the transition was aborted, or `undefined` while it was not. The
+  `type` is one of:
+
+  * `superseded`: a newer transition was started while this one was underway.
+  * `redirected`: a route that it was entering or updating started a new
+    transition with `transitionTo` or `replaceWith`.
+  * `guard`: a transition guard aborted or redirected it.
+  * `error`: one of its hooks failed.
+  * `aborted`: `abort()` was called on it.
+
+  For `superseded`, `redirected` and redirecting guards, `transition` is the
+  transition that took its place. The `TransitionAborted` error the
+  transition rejects with carries the same `abortReason`.
+
+  @property abortReason
+  @type {Object}
+  @category EMBER_ROUTING_TRANSITION_ABORT_REASONS
+  @public
+*/
+
+/**
+  How long the hooks of the routes took during the transition, and how long
+  the first render after it took. Each entry has the `name` of the measure,
+  like `route.model`, the `routeName`, and its `startTime` and `duration` in
+  milliseconds:
+
+  * `route.beforeModel`, `route.model`, `route.afterModel` and
+    `route.setupController` measure the hooks of a route, including the
+    promises they return. The `model` hook is not measured when the route
+    is given its model.
+  * `route.render` measures the first render after the transition, for the
+    route it transitioned to. It is added once that render is complete.
+
+  The same measures are published through `@ember/instrumentation`, with the
+  `routeName` and the `transition` as their payload.
+
+  ```javascript
+  import { subscribe } from '@ember/instrumentation';
+
+  subscribe('route', {
+    before(name, timestamp) {
+      return timestamp;
+    },
+
+    after(name, timestamp, { routeName }, startTime) {
+      reportTiming(name, routeName, timestamp - startTime);
+    }
+  });
+  ```
+
+  @property timings
+  @type {Array}
+  @category EMBER_ROUTING_INSTRUMENTATION
+  @public
+*/
+
 /**
   A standard promise hook that resolves if the transition
   succeeds and rejects if it fails/redirects/aborts.
@@ -3,10 +3,15 @@ import { assign } from '@ember/polyfills';
 import { window } from '@ember/-internals/browser-environment';
 import { run } from '@ember/runloop';
 import { get } from '@ember/-internals/metal';
+import {
+  EMBER_ROUTING_HASH_FORMATS,
+  EMBER_ROUTING_NAVIGATION_LOCATION,
+} from '@ember/canary-features';
 import AutoLocation from '../../lib/location/auto_location';
 import { getHistoryPath, getHashPath } from '../../lib/location/auto_location';
 import HistoryLocation from '../../lib/location/history_location';
 import HashLocation from '../../lib/location/hash_location';
+import NavigationLocation from '../../lib/location/navigation_location';
 import NoneLocation from '../../lib/location/none_location';
 import { buildOwner, moduleFor, AbstractTestCase } from 'internal-test-helpers';
 
@@ -39,12 +44,13 @@ function mockBrowserHistory(overrides, assert) {
   );
 }
 
-function createLocation(location, history) {
+function createLocation(location, history, hashLocation = HashLocation) {
   owner = buildOwner();
 
   owner.register('location:history', HistoryLocation);
-  owner.register('location:hash', HashLocation);
+  owner.register('location:hash', hashLocation);
   owner.register('location:none', NoneLocation);
+  owner.register('location:navigation', NavigationLocation);
 
   let autolocation = AutoLocation.create({
     [OWNER]: owner,
@@ -91,6 +97,24 @@ moduleFor(
       assert.equal(location.getURL(), '/lincoln/park');
     }
 
+    ['@test AutoLocation should forward `afterTransition` to the concrete implementation'](assert) {
+      let browserLocation = mockBrowserLocation({}, assert);
+      let browserHistory = mockBrowserHistory({}, assert);
+
+      location = createLocation(browserLocation, browserHistory);
+      location.detect();
+
+      let concreteImplementation = get(location, 'concreteImplementation');
+
+      concreteImplementation.afterTransition = function() {
+        assert.step('afterTransition');
+      };
+
+      location.afterTransition();
+
+      assert.verifySteps(['afterTransition']);
+    }
+
     ['@test AutoLocation should use a HistoryLocation instance when pushStates is supported'](
       assert
     ) {
@@ -377,3 +401,131 @@ moduleFor(
     }
   }
 );
+
+if (EMBER_ROUTING_NAVIGATION_LOCATION) {
+  moduleFor(
+    'AutoLocation - NavigationLocation',
+    class extends AbstractTestCase {
+      teardown() {
+        if (owner) {
+          run(owner, 'destroy');
+          owner = location = undefined;
+        }
+      }
+
+      ['@test AutoLocation should use a NavigationLocation instance when the Navigation API is supported'](
+        assert
+      ) {
+        let browserLocation = mockBrowserLocation({}, assert);
+        let browserHistory = mockBrowserHistory({}, assert);
+
+        location = createLocation(browserLocation, browserHistory);
+        location.global = {
+          navigation: {},
+        };
+        location.detect();
+
+        assert.ok(get(location, 'concreteImplementation') instanceof NavigationLocation);
+      }
+
+      ['@test AutoLocation should use a HistoryLocation instance when the Navigation API is not supported'](
+        assert
+      ) {
+        let browserLocation = mockBrowserLocation({}, assert);
+        let browserHistory = mockBrowserHistory({}, assert);
+
+        location = createLocation(browserLocation, browserHistory);
+        location.detect();
+
+        assert.ok(get(location, 'concreteImplementation') instanceof HistoryLocation);
+      }
+    }
+  );
+}
+
+if (EMBER_ROUTING_HASH_FORMATS) {
+  moduleFor(
+    'AutoLocation - hash formats',
+    class extends AbstractTestCase {
+      teardown() {
+        if (owner) {
+          run(owner, 'destroy');
+          owner = location = undefined;
+        }
+      }
+
+      ['@test AutoLocation keeps the hash format when it replaces a hash URL with a history URL'](
+        assert
+      ) {
+        assert.expect(2);
+
+        let browserLocation = mockBrowserLocation(
+          {
+            hash: '#!/test',
+            href: 'http://test.com/#!/test',
+          },
+          assert
+        );
+        let browserHistory = mockBrowserHistory(
+          {
+            replaceState(state, title, path) {
+              assert.equal(path, '/test');
+            },
+          },
+          assert
+        );
+
+        location = createLocation(
+          browserLocation,
+          browserHistory,
+          HashLocation.extend({ hashPrefix: '!' })
+        );
+        location.detect();
+
+        assert.ok(get(location, 'concreteImplementation') instanceof HistoryLocation);
+      }
+
+      ['@test AutoLocation uses the hash format when it transforms a history URL into a hash URL'](
+        assert
+      ) {
+        assert.expect(1);
+
+        let browserLocation = mockBrowserLocation(
+          {
+            hostname: 'test.com',
+            href: 'http://test.com/test',
+            pathname: '/test',
+            protocol: 'http:',
+            port: '',
+            replace(path) {
+              assert.equal(path, 'http://test.com/#!/test');
+            },
+          },
+          assert
+        );
+
+        location = createLocation(browserLocation, null, HashLocation.extend({ hashPrefix: '!' }));
+        location.global = {
+          onhashchange() {},
+        };
+        location.detect();
+      }
+
+      ['@test getHistoryPath() does not consider hashes in another format as routes'](assert) {
+        let browserLocation = mockBrowserLocation(
+          {
+            href: 'http://test.com/app/#/about',
+            pathname: '/app/',
+            hash: '#/about',
+          },
+          assert
+        );
+
+        assert.equal(
+          getHistoryPath('/app/', browserLocation, HashLocation.create({ hashPrefix: '!' })),
+          '/app/#/about'
+        );
+      }
+    }
+  );
+}
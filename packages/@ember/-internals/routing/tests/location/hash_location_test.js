@@ -1,5 +1,6 @@
 import { run } from '@ember/runloop';
 import { get } from '@ember/-internals/metal';
+import { EMBER_ROUTING_HASH_FORMATS } from '@ember/canary-features';
 import HashLocation from '../../lib/location/hash_location';
 import { moduleFor, AbstractTestCase } from 'internal-test-helpers';
 
@@ -205,3 +206,93 @@ moduleFor(
     }
   }
 );
+
+if (EMBER_ROUTING_HASH_FORMATS) {
+  moduleFor(
+    'HashLocation - hash formats',
+    class extends AbstractTestCase {
+      teardown() {
+        run(function() {
+          if (location) {
+            location.destroy();
+          }
+        });
+      }
+
+      ['@test HashLocation.getURL() removes the hash prefix'](assert) {
+        createLocation(
+          {
+            hashPrefix: '!',
+            _location: mockBrowserLocation('/#!/foo/bar#car'),
+          },
+          assert
+        );
+
+        assert.equal(location.getURL(), '/foo/bar#car');
+      }
+
+      ['@test HashLocation.getURL() does not consider hashes without the prefix as paths'](assert) {
+        createLocation(
+          {
+            hashPrefix: '!',
+            _location: mockBrowserLocation('/#/foo/bar'),
+          },
+          assert
+        );
+
+        assert.equal(location.getURL(), '/#/foo/bar');
+      }
+
+      ['@test HashLocation.setURL() and replaceURL() add the hash prefix'](assert) {
+        assert.expect(3);
+
+        createLocation(
+          {
+            hashPrefix: 'app=',
+            _location: {
+              replace(path) {
+                assert.equal(path, '#app=/foo');
+              },
+            },
+          },
+          assert
+        );
+
+        location.setURL('/bar');
+        assert.equal(get(location, 'location.hash'), 'app=/bar');
+
+        location.replaceURL('/foo');
+        assert.equal(get(location, 'lastSetURL'), '/foo');
+      }
+
+      ['@test HashLocation.formatURL() adds the hash prefix'](assert) {
+        createLocation({ hashPrefix: '!' }, assert);
+
+        assert.equal(location.formatURL('/foo#bar'), '#!/foo#bar');
+      }
+
+      ['@test the encodeHash and decodeHash hooks define the format of the hash'](assert) {
+        createLocation(
+          {
+            encodeHash(path) {
+              return `app=${encodeURIComponent(path)}`;
+            },
+
+            decodeHash(hash) {
+              return hash.indexOf('app=') === 0 ? decodeURIComponent(hash.substr(4)) : null;
+            },
+
+            _location: mockBrowserLocation('/#app=%2Ffoo%2Fbar'),
+          },
+          assert
+        );
+
+        assert.equal(location.getURL(), '/foo/bar');
+        assert.equal(location.formatURL('/foo/bar'), '#app=%2Ffoo%2Fbar');
+
+        location.setURL('/bar');
+        assert.equal(get(location, 'location.hash'), 'app=%2Fbar');
+      }
+    }
+  );
+}
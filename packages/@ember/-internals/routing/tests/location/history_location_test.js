@@ -1,5 +1,6 @@
 import { run } from '@ember/runloop';
 import { set } from '@ember/-internals/metal';
+import { EMBER_ROUTING_SCROLL_RESTORATION } from '@ember/canary-features';
 import HistoryLocation from '../../lib/location/history_location';
 import { moduleFor, AbstractTestCase } from 'internal-test-helpers';
 
@@ -320,3 +321,128 @@ moduleFor(
     }
   }
 );
+
+if (EMBER_ROUTING_SCROLL_RESTORATION) {
+  moduleFor(
+    'HistoryLocation - scroll restoration',
+    class extends AbstractTestCase {
+      constructor() {
+        super();
+
+        FakeHistory = {
+          state: null,
+          scrollRestoration: 'auto',
+          replaceState(state) {
+            this.state = state;
+          },
+          pushState(state) {
+            this.state = state;
+          },
+        };
+
+        HistoryTestLocation = HistoryLocation.extend({
+          history: FakeHistory,
+          scrollElement: '#scroll-container',
+
+          init() {
+            this._super(...arguments);
+            set(this, 'location', mockBrowserLocation('/a'));
+          },
+        });
+
+        let fixture = document.getElementById('qunit-fixture');
+        fixture.innerHTML =
+          '<div id="scroll-container" style="height: 10px; overflow: auto;">' +
+          '<div style="height: 1000px;"></div>' +
+          '</div>';
+        this.element = document.getElementById('scroll-container');
+        this.urls = [];
+      }
+
+      teardown() {
+        run(() => {
+          if (location) {
+            location.destroy();
+          }
+        });
+      }
+
+      setup(scrollRestoration) {
+        createLocation({ scrollRestoration });
+        location.initState();
+        location.onUpdateURL(url => this.urls.push(url));
+      }
+
+      goTo(path) {
+        set(location, 'location', mockBrowserLocation(path));
+        location.setURL(path);
+        location.afterTransition();
+      }
+
+      popTo(path, state) {
+        FakeHistory.state = state;
+        set(location, 'location', mockBrowserLocation(path));
+        window.dispatchEvent(new window.PopStateEvent('popstate', { state }));
+        location.afterTransition();
+      }
+
+      ['@test auto restores the scroll position when going back and forward'](assert) {
+        this.setup('auto');
+
+        let stateA = FakeHistory.state;
+        this.element.scrollTop = 100;
+
+        this.goTo('/b');
+        assert.equal(this.element.scrollTop, 0, 'a new URL starts at the top');
+
+        let stateB = FakeHistory.state;
+        this.element.scrollTop = 30;
+
+        this.popTo('/a', stateA);
+        assert.deepEqual(this.urls, ['/a']);
+        assert.equal(this.element.scrollTop, 100, 'the position is restored going back');
+
+        this.popTo('/b', stateB);
+        assert.equal(this.element.scrollTop, 30, 'the position is restored going forward');
+      }
+
+      ['@test top scrolls to the top when going back'](assert) {
+        this.setup('top');
+
+        let stateA = FakeHistory.state;
+        this.element.scrollTop = 100;
+
+        this.goTo('/b');
+        this.element.scrollTop = 30;
+
+        this.popTo('/a', stateA);
+        assert.equal(this.element.scrollTop, 0);
+      }
+
+      ['@test manual leaves the scroll position alone'](assert) {
+        this.setup('manual');
+
+        let stateA = FakeHistory.state;
+        this.element.scrollTop = 100;
+
+        this.goTo('/b');
+        assert.equal(this.element.scrollTop, 100);
+
+        this.popTo('/a', stateA);
+        assert.equal(this.element.scrollTop, 100);
+        assert.equal(FakeHistory.scrollRestoration, 'auto', 'the browser keeps restoring');
+      }
+
+      ['@test the browser scroll restoration is disabled while the location is active'](assert) {
+        this.setup('auto');
+
+        assert.equal(FakeHistory.scrollRestoration, 'manual');
+
+        run(() => location.destroy());
+        location = null;
+
+        assert.equal(FakeHistory.scrollRestoration, 'auto');
+      }
+    }
+  );
+}
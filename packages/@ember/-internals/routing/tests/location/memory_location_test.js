@@ -0,0 +1,148 @@
+import { run } from '@ember/runloop';
+import { EMBER_ROUTING_MEMORY_LOCATION } from '@ember/canary-features';
+import MemoryLocation from '../../lib/location/memory_location';
+import { moduleFor, AbstractTestCase } from 'internal-test-helpers';
+
+let location;
+
+function createLocation(options) {
+  location = MemoryLocation.create(options);
+}
+
+if (EMBER_ROUTING_MEMORY_LOCATION) {
+  moduleFor(
+    'MemoryLocation',
+    class extends AbstractTestCase {
+      teardown() {
+        run(() => {
+          if (location) {
+            location.destroy();
+          }
+        });
+      }
+
+      ['@test MemoryLocation starts with an empty history stack'](assert) {
+        createLocation();
+
+        assert.deepEqual(location.entries, []);
+        assert.equal(location.index, -1);
+        assert.equal(location.getURL(), '');
+      }
+
+      ['@test MemoryLocation starts with the initial path'](assert) {
+        createLocation({ path: '/foo/bar', rootURL: '/foo/' });
+
+        assert.deepEqual(location.entries, ['/foo/bar']);
+        assert.equal(location.index, 0);
+        assert.equal(location.getURL(), '/bar');
+      }
+
+      ['@test MemoryLocation.setURL() pushes an entry without calling the updateURL callback'](
+        assert
+      ) {
+        createLocation();
+        location.onUpdateURL(url => assert.ok(false, `onUpdateURL was called with ${url}`));
+
+        location.setURL('/');
+        location.setURL('/posts');
+        location.setURL('/posts');
+
+        assert.deepEqual(location.entries, ['/', '/posts'], 'the same URL is not pushed twice');
+        assert.equal(location.index, 1);
+        assert.equal(location.getURL(), '/posts');
+      }
+
+      ['@test MemoryLocation.replaceURL() replaces the current entry'](assert) {
+        createLocation();
+
+        location.replaceURL('/');
+        location.setURL('/posts');
+        location.replaceURL('/posts/1');
+
+        assert.deepEqual(location.entries, ['/', '/posts/1']);
+        assert.equal(location.getURL(), '/posts/1');
+      }
+
+      ['@test MemoryLocation.back() and forward() move through the stack and call the updateURL callback'](
+        assert
+      ) {
+        createLocation();
+
+        let urls = [];
+        location.onUpdateURL(url => urls.push(url));
+
+        location.setURL('/');
+        location.setURL('/posts');
+        location.setURL('/posts/1');
+
+        location.back();
+        assert.equal(location.getURL(), '/posts');
+
+        location.back();
+        assert.equal(location.getURL(), '/');
+
+        location.back();
+        assert.equal(location.getURL(), '/', 'going back from the first entry does nothing');
+
+        location.forward();
+        assert.equal(location.getURL(), '/posts');
+
+        assert.deepEqual(urls, ['/posts', '/', '/posts']);
+        assert.deepEqual(location.entries, ['/', '/posts', '/posts/1'], 'the entries are kept');
+      }
+
+      ['@test MemoryLocation.go() moves several entries at once'](assert) {
+        createLocation();
+
+        let urls = [];
+        location.onUpdateURL(url => urls.push(url));
+
+        location.setURL('/');
+        location.setURL('/posts');
+        location.setURL('/posts/1');
+
+        location.go(-2);
+        assert.equal(location.index, 0);
+
+        location.go(3);
+        assert.equal(location.index, 0, 'going past the last entry does nothing');
+
+        location.go(2);
+        assert.equal(location.index, 2);
+
+        assert.deepEqual(urls, ['/', '/posts/1']);
+      }
+
+      ['@test MemoryLocation.setURL() discards the entries after the current one'](assert) {
+        createLocation();
+        location.onUpdateURL(() => {});
+
+        location.setURL('/');
+        location.setURL('/posts');
+        location.back();
+        location.setURL('/about');
+
+        assert.deepEqual(location.entries, ['/', '/about']);
+        assert.equal(location.index, 1);
+
+        location.forward();
+        assert.equal(location.getURL(), '/about');
+      }
+
+      ['@test MemoryLocation.handleURL() pushes an entry and calls the updateURL callback'](
+        assert
+      ) {
+        createLocation();
+
+        let urls = [];
+        location.onUpdateURL(url => urls.push(url));
+
+        location.setURL('/');
+        location.handleURL('/posts');
+
+        assert.deepEqual(location.entries, ['/', '/posts']);
+        assert.deepEqual(urls, ['/posts']);
+      }
+    }
+  );
+}
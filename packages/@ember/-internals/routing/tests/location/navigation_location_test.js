@@ -0,0 +1,170 @@
+import { run } from '@ember/runloop';
+import { assign } from '@ember/polyfills';
+import { RSVP } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_NAVIGATION_LOCATION } from '@ember/canary-features';
+import NavigationLocation from '../../lib/location/navigation_location';
+import { moduleFor, AbstractTestCase } from 'internal-test-helpers';
+
+let FakeNavigation, location;
+
+function createLocation(options) {
+  location = NavigationLocation.create(assign({ navigation: FakeNavigation }, options));
+}
+
+function mockNavigation(url) {
+  return {
+    currentEntry: { url },
+    navigations: [],
+    _listeners: [],
+
+    addEventListener(type, listener) {
+      this._listeners.push(listener);
+    },
+
+    removeEventListener(type, listener) {
+      this._listeners = this._listeners.filter(l => l !== listener);
+    },
+
+    navigate(url, options) {
+      this.navigations.push({ url, history: options.history });
+      this.dispatch(url, { navigationType: options.history, info: options.info });
+
+      return { committed: RSVP.resolve(), finished: RSVP.resolve() };
+    },
+
+    // Fires a `navigate` event the way the browser does, committing the URL
+    // and running the handler when a listener intercepts it.
+    dispatch(url, overrides) {
+      let destination = new window.URL(url, 'http://test.com/').href;
+      let event = assign(
+        {
+          navigationType: 'push',
+          destination: { url: destination },
+          canIntercept: true,
+          hashChange: false,
+          downloadRequest: null,
+          formData: null,
+          info: undefined,
+          intercepted: false,
+          intercept(options) {
+            this.intercepted = true;
+            this.handler = options && options.handler;
+          },
+        },
+        overrides
+      );
+
+      this._listeners.forEach(listener => listener(event));
+
+      if (event.intercepted) {
+        this.currentEntry = { url: destination };
+
+        if (event.handler) {
+          event.handler();
+        }
+      }
+
+      return event;
+    },
+  };
+}
+
+if (EMBER_ROUTING_NAVIGATION_LOCATION) {
+  moduleFor(
+    'NavigationLocation',
+    class extends AbstractTestCase {
+      constructor() {
+        super();
+
+        FakeNavigation = mockNavigation('http://test.com/');
+      }
+
+      teardown() {
+        run(() => {
+          if (location) {
+            location.destroy();
+          }
+        });
+      }
+
+      ['@test NavigationLocation.getURL() returns the current url, excluding the rootURL'](assert) {
+        FakeNavigation = mockNavigation('http://test.com/app/posts?sort=asc#comments');
+        createLocation({ rootURL: '/app/' });
+
+        assert.equal(location.getURL(), '/posts?sort=asc#comments');
+      }
+
+      ['@test NavigationLocation.formatURL() prepends the rootURL'](assert) {
+        createLocation({ rootURL: '/app/' });
+
+        assert.equal(location.formatURL('/posts'), '/app/posts');
+      }
+
+      ['@test NavigationLocation.setURL() and replaceURL() navigate without notifying onUpdateURL'](
+        assert
+      ) {
+        createLocation();
+        location.onUpdateURL(url => assert.ok(false, `onUpdateURL was called with ${url}`));
+
+        location.setURL('/posts');
+        assert.equal(location.getURL(), '/posts');
+
+        location.replaceURL('/posts/new');
+        assert.equal(location.getURL(), '/posts/new');
+
+        location.setURL('/posts/new');
+
+        assert.deepEqual(FakeNavigation.navigations, [
+          { url: '/posts', history: 'push' },
+          { url: '/posts/new', history: 'replace' },
+        ]);
+      }
+
+      ['@test NavigationLocation intercepts navigations within the application'](assert) {
+        createLocation({ rootURL: '/app/' });
+        FakeNavigation.currentEntry = { url: 'http://test.com/app/' };
+
+        let urls = [];
+        location.onUpdateURL(url => urls.push(url));
+
+        let event = FakeNavigation.dispatch('/app/posts?sort=asc');
+        assert.ok(event.intercepted, 'a link click is intercepted');
+
+        event = FakeNavigation.dispatch('/app', { navigationType: 'traverse' });
+        assert.ok(event.intercepted, 'going back is intercepted');
+
+        assert.deepEqual(urls, ['/posts?sort=asc', '']);
+      }
+
+      ['@test NavigationLocation leaves other navigations to the browser'](assert) {
+        createLocation({ rootURL: '/app/' });
+        location.onUpdateURL(url => assert.ok(false, `onUpdateURL was called with ${url}`));
+
+        let navigations = [
+          ['/other', {}, 'outside of the rootURL'],
+          ['/application', {}, 'sharing a prefix with the rootURL'],
+          ['/app/posts', { canIntercept: false }, 'that cannot be intercepted'],
+          ['/app/#comments', { hashChange: true }, 'that only change the hash'],
+          ['/app/export', { downloadRequest: 'export.csv' }, 'that download a file'],
+          ['/app/posts', { formData: {} }, 'that submit a form'],
+          ['/app/posts', { navigationType: 'reload' }, 'that reload the page'],
+        ];
+
+        navigations.forEach(([url, overrides, description]) => {
+          let event = FakeNavigation.dispatch(url, overrides);
+          assert.notOk(event.intercepted, `navigations ${description} are not intercepted`);
+        });
+      }
+
+      ['@test NavigationLocation stops intercepting navigations when destroyed'](assert) {
+        createLocation();
+        location.onUpdateURL(url => assert.ok(false, `onUpdateURL was called with ${url}`));
+
+        run(() => location.destroy());
+        location = null;
+
+        assert.notOk(FakeNavigation.dispatch('/posts').intercepted);
+      }
+    }
+  );
+}
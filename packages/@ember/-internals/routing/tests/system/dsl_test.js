@@ -1,4 +1,11 @@
 import { setOwner } from '@ember/-internals/owner';
+import { RSVP } from '@ember/-internals/runtime';
+import {
+  EMBER_ROUTING_LAZY_ROUTES,
+  EMBER_ROUTING_MAP_REDIRECTS,
+  EMBER_ROUTING_PARAM_CONSTRAINTS,
+  EMBER_ROUTING_TRANSITION_GUARDS,
+} from '@ember/canary-features';
 import EmberRouter from '../../lib/system/router';
 import { buildOwner, moduleFor, AbstractTestCase } from 'internal-test-helpers';
 
@@ -411,3 +418,274 @@ moduleFor(
     }
   }
 );
+
+if (EMBER_ROUTING_TRANSITION_GUARDS) {
+  moduleFor(
+    'Ember Router DSL - guards',
+    class extends AbstractTestCase {
+      constructor() {
+        super();
+        Router = EmberRouter.extend();
+      }
+
+      teardown() {
+        Router = null;
+      }
+
+      ['@test guards are inherited by child routes'](assert) {
+        Router = Router.map(function() {
+          this.route('public');
+          this.route('admin', { guards: ['auth'] }, function() {
+            this.route('users', { guards: ['admin'] });
+            this.route('settings', { resetNamespace: true });
+          });
+        });
+
+        let router = Router.create();
+        router._initRouterJs();
+
+        assert.deepEqual(router._guardsByRoute['admin'], ['auth']);
+        assert.deepEqual(router._guardsByRoute['admin.index'], ['auth']);
+        assert.deepEqual(router._guardsByRoute['admin.users'], ['auth', 'admin']);
+        assert.deepEqual(router._guardsByRoute['settings'], ['auth']);
+        assert.equal(router._guardsByRoute['public'], undefined);
+      }
+
+      ['@test guards are inherited by mounted engines'](assert) {
+        Router = Router.map(function() {
+          this.route('admin', { guards: ['auth'] }, function() {
+            this.mount('chat', { guards: ['chat'] });
+          });
+        });
+
+        let engineInstance = buildOwner({
+          ownerOptions: { routable: true },
+        });
+
+        let router = Router.create();
+        setOwner(router, engineInstance);
+        router._initRouterJs();
+
+        assert.deepEqual(router._guardsByRoute['admin.chat'], ['auth', 'chat']);
+      }
+
+      ['@test should fail when guards is not an array']() {
+        expectAssertion(() => {
+          Router.map(function() {
+            this.route('admin', { guards: 'auth' });
+          });
+
+          let router = Router.create();
+          router._initRouterJs();
+        }, "The `guards` option of the 'admin' route must be an array of guard names.");
+      }
+    }
+  );
+}
+
+if (EMBER_ROUTING_LAZY_ROUTES) {
+  moduleFor(
+    'Ember Router DSL - loader',
+    class extends AbstractTestCase {
+      constructor() {
+        super();
+        Router = EmberRouter.extend();
+      }
+
+      teardown() {
+        Router = null;
+      }
+
+      ['@test loaders are inherited by child routes but not by substates'](assert) {
+        let adminLoader = () => RSVP.resolve();
+        let reportsLoader = () => RSVP.resolve();
+
+        Router = Router.map(function() {
+          this.route('public');
+          this.route('admin', { loader: adminLoader }, function() {
+            this.route('users');
+            this.route('reports', { loader: reportsLoader });
+          });
+        });
+
+        let router = Router.create();
+        router._initRouterJs();
+
+        assert.strictEqual(router._loaderByRoute['admin'], adminLoader);
+        assert.strictEqual(router._loaderByRoute['admin.index'], adminLoader);
+        assert.strictEqual(router._loaderByRoute['admin.users'], adminLoader);
+        assert.strictEqual(router._loaderByRoute['admin.reports'], reportsLoader);
+        assert.equal(router._loaderByRoute['admin_loading'], undefined);
+        assert.equal(router._loaderByRoute['public'], undefined);
+      }
+
+      ['@test should fail when the loader is not a function']() {
+        expectAssertion(() => {
+          Router.map(function() {
+            this.route('admin', { loader: 'admin' });
+          });
+
+          let router = Router.create();
+          router._initRouterJs();
+        }, "The `loader` option of the 'admin' route must be a function returning a promise.");
+      }
+    }
+  );
+}
+
+if (EMBER_ROUTING_MAP_REDIRECTS) {
+  moduleFor(
+    'Ember Router DSL - redirects and paths',
+    class extends AbstractTestCase {
+      constructor() {
+        super();
+        Router = EmberRouter.extend();
+      }
+
+      teardown() {
+        Router = null;
+      }
+
+      recognize(router, url) {
+        let results = router._routerMicrolib.recognizer.recognize(url);
+        let handlers = [];
+        let params = {};
+
+        for (let i = 0; i < results.length; i++) {
+          handlers.push(results[i].handler);
+          Object.assign(params, results[i].params);
+        }
+
+        return { handlers, params, queryParams: results.queryParams };
+      }
+
+      ['@test routes are recognized at their additional paths'](assert) {
+        Router = Router.map(function() {
+          this.route('post', { path: '/posts/:post_id', paths: ['/p/:post_id'] }, function() {
+            this.route('comments');
+          });
+        });
+
+        let router = Router.create();
+        router._initRouterJs();
+
+        assert.deepEqual(this.recognize(router, '/p/1').handlers, [
+          'application',
+          'post',
+          'post.index',
+        ]);
+        assert.deepEqual(this.recognize(router, '/p/1/comments').handlers, [
+          'application',
+          'post',
+          'post.comments',
+        ]);
+
+        let { recognizer } = router._routerMicrolib;
+        assert.equal(recognizer.generate('post', { post_id: 1 }), '/posts/1');
+        assert.equal(recognizer.generate('post.comments', { post_id: 1 }), '/posts/1/comments');
+      }
+
+      ['@test redirects are rewritten to the URL of the route they redirect to'](assert) {
+        Router = Router.map(function() {
+          this.route('post', { path: '/posts/:post_id' });
+          this.route('blog', { path: '/blog/:blog_id' }, function() {
+            this.route('article', { path: '/:article_id' });
+            this.redirect('/old/:id', 'blog.article', { params: { id: 'article_id' } });
+          });
+          this.redirect('/posts/:post_id/view', 'post');
+        });
+
+        let router = Router.create();
+        router._initRouterJs();
+
+        assert.equal(router._redirectedURL('/posts/1/view?page=2'), '/posts/1?page=2');
+        assert.equal(router._redirectedURL('/blog/2/old/3'), '/blog/2/3');
+        assert.equal(router._redirectedURL('/posts/1'), '/posts/1', 'other URLs are kept');
+
+        assert.deepEqual(this.recognize(router, router._redirectedURL('/posts/1/view?page=2')), {
+          handlers: ['application', 'post'],
+          params: { post_id: '1' },
+          queryParams: { page: '2' },
+        });
+        assert.deepEqual(this.recognize(router, router._redirectedURL('/blog/2/old/3')), {
+          handlers: ['application', 'blog', 'blog.article'],
+          params: { blog_id: '2', article_id: '3' },
+          queryParams: {},
+        });
+      }
+
+      ['@test should fail when paths is not an array']() {
+        expectAssertion(() => {
+          Router.map(function() {
+            this.route('post', { paths: '/p' });
+          });
+
+          let router = Router.create();
+          router._initRouterJs();
+        }, "The `paths` option of the 'post' route must be an array of paths.");
+      }
+
+      ['@test should fail when a redirect does not lead to a route name']() {
+        expectAssertion(() => {
+          Router.map(function() {
+            this.redirect('/old', '/new');
+          });
+
+          let router = Router.create();
+          router._initRouterJs();
+        }, "The redirect from '/old' must have the name of the route to redirect to.");
+      }
+    }
+  );
+}
+
+if (EMBER_ROUTING_PARAM_CONSTRAINTS) {
+  moduleFor(
+    'Ember Router DSL - param constraints',
+    class extends AbstractTestCase {
+      constructor() {
+        super();
+        Router = EmberRouter.extend();
+      }
+
+      teardown() {
+        Router = null;
+      }
+
+      ['@test constraints are taken from the path and the constraints option'](assert) {
+        let isSlug = value => /^[a-z-]+$/.test(value);
+
+        Router = Router.map(function() {
+          this.route('post', { path: '/posts/:post_id(\\d+)' }, function() {
+            this.route('comment', { path: '/:comment_id', constraints: { comment_id: isSlug } });
+          });
+          this.route('about');
+        });
+
+        let router = Router.create();
+        router._initRouterJs();
+
+        assert.deepEqual(Object.keys(router._constraintsByRoute).sort(), ['post', 'post.comment']);
+        assert.equal(router._constraintsByRoute['post'].post_id.source, '^(?:\\d+)$');
+        assert.strictEqual(router._constraintsByRoute['post.comment'].comment_id, isSlug);
+
+        let { recognizer } = router._routerMicrolib;
+        assert.equal(
+          recognizer.generate('post.comment', { post_id: 1, comment_id: 'a' }),
+          '/posts/1/a'
+        );
+      }
+
+      ['@test should fail when a constraint is not a regular expression or a function']() {
+        expectAssertion(() => {
+          Router.map(function() {
+            this.route('post', { path: '/posts/:post_id', constraints: { post_id: 'number' } });
+          });
+
+          let router = Router.create();
+          router._initRouterJs();
+        }, "The `constraints` option of the 'post' route must map param names to regular expressions or functions.");
+      }
+    }
+  );
+}
@@ -7,7 +7,8 @@ import { get, set, computed } from '@ember/-internals/metal';
 import * as environment from '@ember/-internals/browser-environment';
 import { jQuery } from '@ember/-internals/views';
 import EngineInstance from '@ember/engine/instance';
-import { renderSettled } from '@ember/-internals/glimmer';
+import { renderSettled, setupIslands } from '@ember/-internals/glimmer';
+import { EMBER_GLIMMER_ISLANDS, EMBER_GLIMMER_STREAMING } from '@ember/canary-features';
 
 /**
   The `ApplicationInstance` encapsulates all of the stateful aspects of a
@@ -147,6 +148,19 @@ const ApplicationInstance = EngineInstance.extend({
     @private
   */
   didCreateRootView(view) {
+    if (EMBER_GLIMMER_ISLANDS && this.lookup('-environment:main')._renderMode === 'islands') {
+      // The markup rendered on the server is left as it is, only the
+      // components of its islands are rehydrated.
+      let { rootElement } = this;
+
+      if (typeof rootElement === 'string') {
+        rootElement = this.lookup('service:-document').querySelector(rootElement);
+      }
+
+      this._islands = setupIslands(this, rootElement);
+      return;
+    }
+
     view.appendTo(this.rootElement);
   },
 
@@ -277,6 +291,10 @@ const ApplicationInstance = EngineInstance.extend({
   willDestroy() {
     this._super(...arguments);
     this.application._unwatchInstance(this);
+
+    if (EMBER_GLIMMER_ISLANDS && this._islands) {
+      this._islands.destroy();
+    }
   },
 });
 
@@ -360,6 +378,23 @@ class BootOptions {
     */
     this._renderMode = options._renderMode;
 
+    if (EMBER_GLIMMER_STREAMING) {
+      /**
+        The function the HTML is written to, chunk by chunk, when `_renderMode`
+        is `'stream'`.
+
+        The first chunk is the HTML of the application, with placeholders for
+        the routes still waiting for their models. Each chunk that follows
+        patches the HTML of some of these routes in.
+
+        @property _writeChunk
+        @type Function
+        @default undefined
+        @private
+      */
+      this._writeChunk = options._writeChunk;
+    }
+
     /**
       Run in a full browser environment.
 
@@ -21,8 +21,10 @@ import {
   Router,
   HashLocation,
   HistoryLocation,
+  NavigationLocation,
   AutoLocation,
   NoneLocation,
+  MemoryLocation,
   BucketCache,
 } from '@ember/-internals/routing';
 import ApplicationInstance from '../instance';
@@ -31,6 +33,10 @@ import { privatize as P } from '@ember/-internals/container';
 import { setupApplicationRegistry } from '@ember/-internals/glimmer';
 import { RouterService } from '@ember/-internals/routing';
 import { JQUERY_INTEGRATION } from '@ember/deprecated-features';
+import {
+  EMBER_ROUTING_MEMORY_LOCATION,
+  EMBER_ROUTING_NAVIGATION_LOCATION,
+} from '@ember/canary-features';
 
 let librariesRegistered = false;
 
@@ -1118,6 +1124,14 @@ function commonSetupRegistry(registry) {
   registry.register('location:history', HistoryLocation);
   registry.register('location:none', NoneLocation);
 
+  if (EMBER_ROUTING_NAVIGATION_LOCATION) {
+    registry.register('location:navigation', NavigationLocation);
+  }
+
+  if (EMBER_ROUTING_MEMORY_LOCATION) {
+    registry.register('location:memory', MemoryLocation);
+  }
+
   registry.register(P`-bucket-cache:main`, {
     create() {
       return new BucketCache();
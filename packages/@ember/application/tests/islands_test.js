@@ -0,0 +1,200 @@
+import { moduleFor, ApplicationTestCase, runTask } from 'internal-test-helpers';
+import { EMBER_GLIMMER_ISLANDS } from '@ember/canary-features';
+import { Component } from '@ember/-internals/glimmer';
+
+if (EMBER_GLIMMER_ISLANDS) {
+  moduleFor(
+    'Application - visit() with _renderMode: islands',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.created = 0;
+        this.destroyed = 0;
+
+        let test = this;
+
+        this.add(
+          'component:x-counter',
+          Component.extend({
+            count: 0,
+
+            init() {
+              this._super(...arguments);
+              test.created++;
+            },
+
+            willDestroy() {
+              this._super(...arguments);
+              test.destroyed++;
+            },
+
+            actions: {
+              increment() {
+                this.incrementProperty('count');
+              },
+            },
+          })
+        );
+
+        this.addTemplate(
+          'components/x-counter',
+          '<button {{action "increment"}}>Clicked {{this.count}} times</button>'
+        );
+
+        this.rootElement = document.createElement('div');
+        document.querySelector('#qunit-fixture').appendChild(this.rootElement);
+      }
+
+      teardown() {
+        delete window.IntersectionObserver;
+
+        super.teardown();
+      }
+
+      renderOnServer() {
+        let rootElement = document.createElement('div');
+
+        return this.visit('/', {
+          isBrowser: false,
+          rootElement,
+          _renderMode: 'serialize',
+        }).then(instance => {
+          this.rootElement.innerHTML = rootElement.innerHTML;
+
+          runTask(() => instance.destroy());
+          this.applicationInstance = null;
+          this.created = 0;
+          this.destroyed = 0;
+        });
+      }
+
+      visitIslands() {
+        return runTask(() =>
+          this.application.visit('/', { rootElement: this.rootElement, _renderMode: 'islands' })
+        ).then(instance => (this.applicationInstance = instance));
+      }
+
+      ['@test an island is rehydrated once it is interacted with'](assert) {
+        this.addTemplate(
+          'index',
+          '<h1>Counter</h1><Island @component="x-counter" @load="interaction" @args={{hash count=2}} />'
+        );
+
+        let heading, button;
+
+        return this.renderOnServer()
+          .then(() => {
+            heading = this.rootElement.querySelector('h1');
+            button = this.rootElement.querySelector('button');
+
+            assert.equal(button.textContent, 'Clicked 2 times');
+
+            return this.visitIslands();
+          })
+          .then(instance => {
+            assert.equal(this.created, 0, 'the island is not rehydrated before it is used');
+            assert.strictEqual(this.rootElement.querySelector('h1'), heading);
+
+            runTask(() => this.click(button));
+
+            assert.equal(this.created, 1, 'the island is rehydrated');
+            assert.strictEqual(this.rootElement.querySelector('button'), button);
+            assert.equal(button.textContent, 'Clicked 3 times', 'the event is handled');
+
+            runTask(() => this.click(button));
+
+            assert.equal(this.created, 1);
+            assert.equal(button.textContent, 'Clicked 4 times');
+
+            runTask(() => instance.destroy());
+            this.applicationInstance = null;
+
+            assert.equal(this.destroyed, 1, 'the island is destroyed with the application');
+          });
+      }
+
+      ['@test an island is rehydrated once it is visible'](assert) {
+        let observers = [];
+
+        window.IntersectionObserver = class {
+          constructor(callback) {
+            this.callback = callback;
+            this.elements = [];
+            observers.push(this);
+          }
+
+          observe(element) {
+            this.elements.push(element);
+          }
+
+          unobserve(element) {
+            this.elements.splice(this.elements.indexOf(element), 1);
+          }
+
+          disconnect() {
+            this.elements = [];
+          }
+        };
+
+        this.addTemplate(
+          'index',
+          '<Island @component="x-counter" @args={{hash count=5}} /><p>Static</p>'
+        );
+
+        let island, button;
+
+        return this.renderOnServer()
+          .then(() => {
+            island = this.rootElement.querySelector('[data-ember-island]');
+            button = island.querySelector('button');
+
+            assert.equal(island.getAttribute('data-ember-island-args'), '{"count":5}');
+
+            return this.visitIslands();
+          })
+          .then(() => {
+            let [observer] = observers;
+
+            assert.deepEqual(observer.elements, [island]);
+
+            observer.callback([{ isIntersecting: false, target: island }]);
+            assert.equal(this.created, 0, 'the island is not rehydrated while it is hidden');
+
+            observer.callback([{ isIntersecting: true, target: island }]);
+            assert.equal(this.created, 1, 'the island is rehydrated');
+            assert.deepEqual(observer.elements, [], 'the island is no longer observed');
+            assert.strictEqual(island.querySelector('button'), button);
+
+            runTask(() => this.click(button));
+
+            assert.equal(button.textContent, 'Clicked 6 times');
+          });
+      }
+
+      ['@test the islands inside of an island are rendered with it'](assert) {
+        this.addTemplate('components/x-panel', 'Panel: <Island @component="x-counter" />');
+        this.addTemplate(
+          'index',
+          '<Island @component="x-panel" @load="interaction" /><Island @component="x-counter" @load="interaction" />'
+        );
+
+        return this.renderOnServer()
+          .then(() => this.visitIslands())
+          .then(() => {
+            let panel = this.rootElement.querySelector('[data-ember-island="x-panel"]');
+
+            runTask(() => this.click(panel));
+
+            assert.equal(this.created, 1, 'only the island inside of the panel is rendered');
+            assert.equal(panel.querySelector('button').textContent, 'Clicked 0 times');
+
+            runTask(() => this.click(panel.querySelector('button')));
+
+            assert.equal(this.created, 1);
+            assert.equal(panel.querySelector('button').textContent, 'Clicked 1 times');
+          });
+      }
+    }
+  );
+}
@@ -25,6 +25,30 @@ export const DEFAULT_FEATURES = {
   EMBER_CUSTOM_COMPONENT_ARG_PROXY: null,
   EMBER_GLIMMER_ON_MODIFIER: true,
   EMBER_FRAMEWORK_OBJECT_OWNER_ARGUMENT: true,
+  EMBER_ROUTING_ROUTER_SERVICE_REFRESH: null,
+  EMBER_ROUTING_TRANSITION_GUARDS: null,
+  EMBER_ROUTING_LAZY_ROUTES: null,
+  EMBER_ROUTING_QUERY_PARAM_TRANSFORMS: null,
+  EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS: null,
+  EMBER_ROUTING_SCROLL_RESTORATION: null,
+  EMBER_ROUTING_NAVIGATION_LOCATION: null,
+  EMBER_ROUTING_MEMORY_LOCATION: null,
+  EMBER_ROUTING_TRANSITION_ABORT_REASONS: null,
+  EMBER_ROUTING_PREFETCH: null,
+  EMBER_ROUTING_MODEL_CACHE: null,
+  EMBER_ROUTING_SUBSTATE_CONFIGURATION: null,
+  EMBER_ROUTING_CAN_EXIT: null,
+  EMBER_ROUTING_MAP_REDIRECTS: null,
+  EMBER_ROUTING_PARAM_CONSTRAINTS: null,
+  EMBER_ROUTING_ENGINE_RELATIVE_NAMES: null,
+  EMBER_ROUTING_INSTRUMENTATION: null,
+  EMBER_ROUTING_HASH_FORMATS: null,
+  EMBER_ROUTING_NAMED_ROUTERS: null,
+  EMBER_GLIMMER_ERROR_BOUNDARY: null,
+  EMBER_GLIMMER_STREAMING: null,
+  EMBER_GLIMMER_ISLANDS: null,
+  EMBER_GLIMMER_RENDER_PRIORITIES: null,
+  EMBER_GLIMMER_RENDER_PROFILER: null,
 };
 
 /**
@@ -95,3 +119,49 @@ export const EMBER_GLIMMER_ON_MODIFIER = featureValue(FEATURES.EMBER_GLIMMER_ON_
 export const EMBER_FRAMEWORK_OBJECT_OWNER_ARGUMENT = featureValue(
   FEATURES.EMBER_FRAMEWORK_OBJECT_OWNER_ARGUMENT
 );
+export const EMBER_ROUTING_ROUTER_SERVICE_REFRESH = featureValue(
+  FEATURES.EMBER_ROUTING_ROUTER_SERVICE_REFRESH
+);
+export const EMBER_ROUTING_TRANSITION_GUARDS = featureValue(
+  FEATURES.EMBER_ROUTING_TRANSITION_GUARDS
+);
+export const EMBER_ROUTING_LAZY_ROUTES = featureValue(FEATURES.EMBER_ROUTING_LAZY_ROUTES);
+export const EMBER_ROUTING_QUERY_PARAM_TRANSFORMS = featureValue(
+  FEATURES.EMBER_ROUTING_QUERY_PARAM_TRANSFORMS
+);
+export const EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS = featureValue(
+  FEATURES.EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS
+);
+export const EMBER_ROUTING_SCROLL_RESTORATION = featureValue(
+  FEATURES.EMBER_ROUTING_SCROLL_RESTORATION
+);
+export const EMBER_ROUTING_NAVIGATION_LOCATION = featureValue(
+  FEATURES.EMBER_ROUTING_NAVIGATION_LOCATION
+);
+export const EMBER_ROUTING_MEMORY_LOCATION = featureValue(FEATURES.EMBER_ROUTING_MEMORY_LOCATION);
+export const EMBER_ROUTING_TRANSITION_ABORT_REASONS = featureValue(
+  FEATURES.EMBER_ROUTING_TRANSITION_ABORT_REASONS
+);
+export const EMBER_ROUTING_PREFETCH = featureValue(FEATURES.EMBER_ROUTING_PREFETCH);
+export const EMBER_ROUTING_MODEL_CACHE = featureValue(FEATURES.EMBER_ROUTING_MODEL_CACHE);
+export const EMBER_ROUTING_SUBSTATE_CONFIGURATION = featureValue(
+  FEATURES.EMBER_ROUTING_SUBSTATE_CONFIGURATION
+);
+export const EMBER_ROUTING_CAN_EXIT = featureValue(FEATURES.EMBER_ROUTING_CAN_EXIT);
+export const EMBER_ROUTING_MAP_REDIRECTS = featureValue(FEATURES.EMBER_ROUTING_MAP_REDIRECTS);
+export const EMBER_ROUTING_PARAM_CONSTRAINTS = featureValue(
+  FEATURES.EMBER_ROUTING_PARAM_CONSTRAINTS
+);
+export const EMBER_ROUTING_ENGINE_RELATIVE_NAMES = featureValue(
+  FEATURES.EMBER_ROUTING_ENGINE_RELATIVE_NAMES
+);
+export const EMBER_ROUTING_INSTRUMENTATION = featureValue(FEATURES.EMBER_ROUTING_INSTRUMENTATION);
+export const EMBER_ROUTING_HASH_FORMATS = featureValue(FEATURES.EMBER_ROUTING_HASH_FORMATS);
+export const EMBER_ROUTING_NAMED_ROUTERS = featureValue(FEATURES.EMBER_ROUTING_NAMED_ROUTERS);
+export const EMBER_GLIMMER_ERROR_BOUNDARY = featureValue(FEATURES.EMBER_GLIMMER_ERROR_BOUNDARY);
+export const EMBER_GLIMMER_STREAMING = featureValue(FEATURES.EMBER_GLIMMER_STREAMING);
+export const EMBER_GLIMMER_ISLANDS = featureValue(FEATURES.EMBER_GLIMMER_ISLANDS);
+export const EMBER_GLIMMER_RENDER_PRIORITIES = featureValue(
+  FEATURES.EMBER_GLIMMER_RENDER_PRIORITIES
+);
+export const EMBER_GLIMMER_RENDER_PROFILER = featureValue(FEATURES.EMBER_GLIMMER_RENDER_PROFILER);
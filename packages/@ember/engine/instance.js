@@ -9,6 +9,10 @@ import {
   RegistryProxyMixin,
   RSVP,
 } from '@ember/-internals/runtime';
+import {
+  EMBER_GLIMMER_STREAMING,
+  EMBER_ROUTING_ENGINE_RELATIVE_NAMES,
+} from '@ember/canary-features';
 import { assert } from '@ember/debug';
 import EmberError from '@ember/error';
 import { Registry, privatize as P } from '@ember/-internals/container';
@@ -174,6 +178,10 @@ const EngineInstance = EmberObject.extend(RegistryProxyMixin, ContainerProxyMixi
 
     let registrations = ['route:basic', 'service:-routing', 'service:-glimmer-environment'];
 
+    if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+      registrations.push('service:router');
+    }
+
     registrations.forEach(key => this.register(key, parent.resolveRegistration(key)));
 
     let env = parent.lookup('-environment:main');
@@ -192,10 +200,27 @@ const EngineInstance = EmberObject.extend(RegistryProxyMixin, ContainerProxyMixi
       singletons.push('event_dispatcher:main');
     }
 
+    if (EMBER_GLIMMER_STREAMING && env._renderMode === 'stream') {
+      // The outlets of engines are streamed with the ones of the application.
+      singletons.push('service:-outlet-stream');
+    }
+
     singletons.forEach(key => this.register(key, parent.lookup(key), { instantiate: false }));
 
     this.inject('view', '_environment', '-environment:main');
     this.inject('route', '_environment', '-environment:main');
+
+    if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+      this.inject('service:router', '_router', 'router:main');
+
+      if (this.routable) {
+        // The engine router resolves route names relative to the mount point
+        // of the engine.
+        let RouterService = parent.resolveRegistration('service:router');
+        this.register('service:engine-router', RouterService.extend({ _engineRelative: true }));
+        this.inject('service:engine-router', '_router', 'router:main');
+      }
+    }
   },
 });
 
@@ -221,6 +221,9 @@ function withFinalizer<Binding, Result>(
 
 function NOOP() {}
 
+// private for now
+export { time as _time };
+
 // private for now
 export function _instrumentStart(name: string, payloadFunc: () => object): () => void;
 export function _instrumentStart<Arg>(
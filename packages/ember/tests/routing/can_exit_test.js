@@ -0,0 +1,296 @@
+import { Route } from '@ember/-internals/routing';
+import { RSVP } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_CAN_EXIT, EMBER_ROUTING_MEMORY_LOCATION } from '@ember/canary-features';
+import { moduleFor, ApplicationTestCase, runLoopSettled, runTask } from 'internal-test-helpers';
+
+class CanExitTestCase extends ApplicationTestCase {
+  constructor() {
+    super(...arguments);
+
+    this.asked = [];
+    this.answer = true;
+    this.modelCalls = [];
+
+    let test = this;
+
+    this.router.map(function() {
+      this.route('about');
+      this.route('login');
+      this.route('posts', function() {
+        this.route('edit', { path: '/:post_id/edit' });
+      });
+    });
+
+    this.add(
+      'route:posts',
+      Route.extend({
+        canExit(transition) {
+          test.asked.push(['posts', transition]);
+          return true;
+        },
+      })
+    );
+
+    this.add(
+      'route:posts.edit',
+      Route.extend({
+        model(params) {
+          return { id: params.post_id };
+        },
+
+        canExit(transition) {
+          test.asked.push(['posts.edit', transition]);
+          return test.answer;
+        },
+      })
+    );
+
+    this.add(
+      'route:about',
+      Route.extend({
+        model() {
+          test.modelCalls.push('about');
+        },
+      })
+    );
+
+    this.addTemplate('about', 'About');
+    this.addTemplate('posts.index', 'Posts');
+    this.addTemplate('posts.edit', 'Editing {{this.model.id}}');
+  }
+
+  get routerOptions() {
+    return {
+      location: 'none',
+    };
+  }
+
+  startTransition(...args) {
+    return runTask(() => this.appRouter.transitionTo(...args));
+  }
+
+  get askedRoutes() {
+    return this.asked.map(([name]) => name);
+  }
+
+  async assertAborted(transition) {
+    let assert = this.assert;
+
+    try {
+      await transition;
+      assert.ok(false, 'the transition should have been aborted');
+    } catch (error) {
+      assert.equal(error.name, 'TransitionAborted');
+    }
+  }
+}
+
+if (EMBER_ROUTING_CAN_EXIT) {
+  moduleFor(
+    'Route#canExit',
+    class extends CanExitTestCase {
+      async ['@test routes are asked whether they can be exited, deepest first'](assert) {
+        await this.visit('/posts/1/edit');
+
+        let transition = this.startTransition('about');
+        await transition;
+
+        this.assertText('About');
+        assert.deepEqual(this.askedRoutes, ['posts.edit', 'posts']);
+        assert.ok(this.asked[0][1] === transition, 'canExit is called with the transition');
+      }
+
+      async ['@test routes that stay active are not asked'](assert) {
+        await this.visit('/posts/1/edit');
+        await this.transitionTo('posts.index');
+
+        this.assertText('Posts');
+        assert.deepEqual(this.askedRoutes, ['posts.edit']);
+      }
+
+      async ['@test answering false aborts the transition'](assert) {
+        this.answer = false;
+
+        await this.visit('/posts/1/edit');
+        await this.assertAborted(this.startTransition('about'));
+
+        this.assertText('Editing 1');
+        assert.equal(this.appRouter.get('currentURL'), '/posts/1/edit');
+        assert.deepEqual(this.askedRoutes, ['posts.edit'], 'the parent route is not asked');
+        assert.deepEqual(this.modelCalls, [], 'the destination is not resolved');
+      }
+
+      async ['@test the transition is retried once a promise allows it'](assert) {
+        let answer = RSVP.defer();
+        this.answer = answer.promise;
+
+        await this.visit('/posts/1/edit');
+
+        let transition = this.startTransition('about');
+        await this.assertAborted(transition);
+
+        this.assertText('Editing 1');
+        assert.deepEqual(this.modelCalls, [], 'the destination is not resolved while asking');
+
+        runTask(() => answer.resolve(true));
+        await runLoopSettled();
+
+        this.assertText('About');
+        assert.deepEqual(this.modelCalls, ['about']);
+        assert.deepEqual(this.askedRoutes, ['posts.edit', 'posts'], 'routes are asked once');
+      }
+
+      async ['@test a promise resolving to false aborts the transition'](assert) {
+        let answer = RSVP.defer();
+        this.answer = answer.promise;
+
+        await this.visit('/posts/1/edit');
+
+        this.startTransition('about');
+        runTask(() => answer.resolve(false));
+        await runLoopSettled();
+
+        this.assertText('Editing 1');
+        assert.equal(this.appRouter.get('currentURL'), '/posts/1/edit');
+      }
+
+      async ['@test routes are not asked again when the transition is redirected'](assert) {
+        this.add(
+          'route:about',
+          Route.extend({
+            beforeModel() {
+              this.transitionTo('login');
+            },
+          })
+        );
+        this.addTemplate('login', 'Login');
+
+        await this.visit('/posts/1/edit');
+        await this.startTransition('about').catch(() => {});
+        await runLoopSettled();
+
+        this.assertText('Login');
+        assert.deepEqual(this.askedRoutes, ['posts.edit', 'posts']);
+      }
+
+      async ['@test routes without canExit do not delay transitions'](assert) {
+        await this.visit('/about');
+
+        this.startTransition('login');
+
+        assert.equal(this.appRouter.get('currentRouteName'), 'login');
+        assert.deepEqual(this.asked, []);
+      }
+    }
+  );
+
+  moduleFor(
+    'Route#canExit - beforeunload',
+    class extends CanExitTestCase {
+      get routerOptions() {
+        return {
+          location: 'none',
+          confirmBeforeUnload: true,
+        };
+      }
+
+      unload() {
+        // The test page itself cancels `beforeunload` events while tests run.
+        let event = new window.Event('beforeunload', { cancelable: true });
+        this.appRouter._beforeUnloadHandler(event);
+        return event;
+      }
+
+      async ['@test the browser asks before unloading when a route answers false'](assert) {
+        this.answer = false;
+
+        await this.visit('/posts/1/edit');
+
+        assert.ok(this.unload().defaultPrevented, 'unloading is confirmed');
+        assert.deepEqual(this.asked, [['posts', null], ['posts.edit', null]]);
+      }
+
+      async ['@test the page unloads when the active routes can be exited'](assert) {
+        await this.visit('/posts/1/edit');
+        assert.notOk(this.unload().defaultPrevented);
+
+        await this.visit('/about');
+        this.answer = false;
+        assert.notOk(this.unload().defaultPrevented, 'exited routes are not asked');
+      }
+    }
+  );
+}
+
+if (EMBER_ROUTING_CAN_EXIT && EMBER_ROUTING_MEMORY_LOCATION) {
+  moduleFor(
+    'Route#canExit - back button',
+    class extends CanExitTestCase {
+      get routerOptions() {
+        return {
+          location: 'memory',
+        };
+      }
+
+      get location() {
+        return this.appRouter.location;
+      }
+
+      async ['@test the history is unchanged after a confirmed back'](assert) {
+        let answer = RSVP.defer();
+        this.answer = answer.promise;
+
+        await this.visit('/about');
+        await this.transitionTo('posts.edit', '1');
+
+        runTask(() => this.location.back());
+        await runLoopSettled();
+
+        assert.deepEqual(this.location.entries, ['/posts/1/edit', '/posts/1/edit']);
+        assert.equal(this.location.index, 0);
+        assert.equal(this.location.getURL(), '/posts/1/edit', 'the URL is restored while asking');
+        this.assertText('Editing 1');
+
+        runTask(() => answer.resolve(true));
+        await runLoopSettled();
+
+        this.assertText('About');
+        assert.deepEqual(this.location.entries, ['/about', '/posts/1/edit']);
+        assert.equal(this.location.index, 0);
+        assert.equal(this.location.getURL(), '/about');
+      }
+
+      async ['@test the history keeps its length after a cancelled back'](assert) {
+        let answer = RSVP.defer();
+        this.answer = answer.promise;
+
+        await this.visit('/about');
+        await this.transitionTo('posts.edit', '1');
+
+        runTask(() => this.location.back());
+        runTask(() => answer.resolve(false));
+        await runLoopSettled();
+
+        this.assertText('Editing 1');
+        assert.deepEqual(this.location.entries, ['/posts/1/edit', '/posts/1/edit']);
+        assert.equal(this.location.index, 0);
+        assert.equal(this.appRouter.get('currentURL'), '/posts/1/edit');
+      }
+
+      async ['@test the previous URL stays when the route cannot be exited'](assert) {
+        this.answer = false;
+
+        await this.visit('/about');
+        await this.transitionTo('posts.edit', '1');
+
+        runTask(() => this.location.back());
+        await runLoopSettled();
+
+        this.assertText('Editing 1');
+        assert.deepEqual(this.location.entries, ['/posts/1/edit', '/posts/1/edit']);
+        assert.equal(this.location.getURL(), '/posts/1/edit');
+        assert.equal(this.appRouter.get('currentURL'), '/posts/1/edit');
+      }
+    }
+  );
+}
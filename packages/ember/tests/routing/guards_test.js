@@ -0,0 +1,219 @@
+import { Route } from '@ember/-internals/routing';
+import { Object as EmberObject, RSVP } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_TRANSITION_GUARDS } from '@ember/canary-features';
+import { run } from '@ember/runloop';
+import { moduleFor, ApplicationTestCase } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_TRANSITION_GUARDS) {
+  moduleFor(
+    'Router.map - guards',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        let calls = (this.calls = []);
+
+        this.router.map(function() {
+          this.route('public');
+          this.route('admin', { guards: ['auth'] }, function() {
+            this.route('users', { guards: ['auth', 'admin'] });
+          });
+          this.route('login');
+        });
+
+        this.add(
+          'route:admin',
+          Route.extend({
+            beforeModel() {
+              calls.push('beforeModel:admin');
+            },
+          })
+        );
+
+        this.add(
+          'route:admin.users',
+          Route.extend({
+            beforeModel() {
+              calls.push('beforeModel:admin.users');
+            },
+          })
+        );
+      }
+
+      get routerService() {
+        return this.applicationInstance.lookup('service:router');
+      }
+
+      addGuard(name, check) {
+        let calls = this.calls;
+
+        this.add(
+          `guard:${name}`,
+          EmberObject.extend({
+            check(transition) {
+              calls.push(name);
+              return check(transition);
+            },
+          })
+        );
+      }
+
+      ['@test guards run in order before the hooks and only once per transition'](assert) {
+        this.addGuard('auth', () => true);
+        this.addGuard('admin', () => undefined);
+
+        return this.visit('/admin/users').then(() => {
+          assert.deepEqual(this.calls, [
+            'auth',
+            'admin',
+            'beforeModel:admin',
+            'beforeModel:admin.users',
+          ]);
+          assert.equal(this.routerService.get('currentRouteName'), 'admin.users');
+        });
+      }
+
+      ['@test routes without guards are not affected'](assert) {
+        this.addGuard('auth', () => false);
+
+        return this.visit('/public').then(() => {
+          assert.deepEqual(this.calls, []);
+          assert.equal(this.routerService.get('currentRouteName'), 'public');
+        });
+      }
+
+      ['@test a guard can wait for a promise before allowing a transition'](assert) {
+        this.addGuard('auth', () => RSVP.resolve(true));
+        this.addGuard('admin', () => RSVP.resolve());
+
+        return this.visit('/admin/users').then(() => {
+          assert.deepEqual(this.calls, [
+            'auth',
+            'admin',
+            'beforeModel:admin',
+            'beforeModel:admin.users',
+          ]);
+          assert.equal(this.routerService.get('currentRouteName'), 'admin.users');
+        });
+      }
+
+      ['@test a guard returning false aborts the transition'](assert) {
+        assert.expect(4);
+
+        this.addGuard('auth', () => false);
+
+        let transition;
+
+        return this.visit('/public')
+          .then(() => {
+            transition = this.routerService.transitionTo('admin');
+            return transition;
+          })
+          .catch(() => {
+            assert.ok(transition.isAborted, 'the transition was aborted');
+            assert.deepEqual(transition.guardRejection, { guard: 'auth' });
+            assert.deepEqual(this.calls, ['auth'], 'beforeModel did not run');
+            assert.equal(this.routerService.get('currentRouteName'), 'public');
+          });
+      }
+
+      ['@test a guard can abort the transition asynchronously with a reason'](assert) {
+        assert.expect(4);
+
+        this.addGuard('auth', () => true);
+        this.addGuard('admin', () => RSVP.resolve({ abort: 'not an admin' }));
+
+        let transition;
+
+        return this.visit('/public')
+          .then(() => {
+            transition = this.routerService.transitionTo('admin.users');
+            return transition;
+          })
+          .catch(() => {
+            assert.ok(transition.isAborted, 'the transition was aborted');
+            assert.deepEqual(transition.guardRejection, {
+              guard: 'admin',
+              reason: 'not an admin',
+            });
+            assert.deepEqual(this.calls, ['auth', 'admin'], 'no hook ran');
+            assert.equal(this.routerService.get('currentRouteName'), 'public');
+          });
+      }
+
+      ['@test a guard can redirect the transition'](assert) {
+        this.addGuard('auth', () => RSVP.resolve({ redirectTo: 'login' }));
+
+        let transition;
+
+        return this.visit('/public')
+          .then(() => {
+            transition = this.routerService.transitionTo('admin.users');
+            return transition.followRedirects();
+          })
+          .then(() => {
+            assert.equal(transition.guardRejection.guard, 'auth');
+            assert.equal(transition.guardRejection.redirect.targetName, 'login');
+            assert.deepEqual(this.calls, ['auth']);
+            assert.equal(this.routerService.get('currentRouteName'), 'login');
+          });
+      }
+
+      ['@test guards run again each time the route is entered'](assert) {
+        assert.expect(3);
+
+        let allow = true;
+        this.addGuard('auth', () => allow);
+
+        return this.visit('/admin')
+          .then(() => {
+            assert.equal(this.routerService.get('currentRouteName'), 'admin.index');
+
+            return this.visit('/public');
+          })
+          .then(() => {
+            allow = false;
+            this.calls.length = 0;
+
+            return this.routerService.transitionTo('admin');
+          })
+          .catch(() => {
+            assert.deepEqual(this.calls, ['auth']);
+            assert.equal(this.routerService.get('currentRouteName'), 'public');
+          });
+      }
+
+      ['@test the hooks of a route wait for the guards of its child'](assert) {
+        let resolveGuard;
+
+        this.addGuard('auth', () => true);
+        this.addGuard('admin', () => new RSVP.Promise(resolve => (resolveGuard = resolve)));
+
+        return this.visit('/admin')
+          .then(() => {
+            this.calls.length = 0;
+
+            let transition = run(() => this.routerService.transitionTo('admin.users'));
+
+            assert.deepEqual(this.calls, ['auth', 'admin'], 'the hooks wait for the guard');
+
+            run(() => resolveGuard(true));
+
+            return transition;
+          })
+          .then(() => {
+            assert.deepEqual(this.calls, ['auth', 'admin', 'beforeModel:admin.users']);
+            assert.equal(this.routerService.get('currentRouteName'), 'admin.users');
+          });
+      }
+
+      ['@test a missing guard triggers an assertion']() {
+        return this.visit('/public').then(() => {
+          expectAssertion(() => {
+            run(() => this.routerService.transitionTo('admin'));
+          }, "The guard 'auth' could not be found. Make sure it is registered as 'guard:auth'.");
+        });
+      }
+    }
+  );
+}
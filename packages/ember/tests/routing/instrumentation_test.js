@@ -0,0 +1,144 @@
+import { Route } from '@ember/-internals/routing';
+import { RSVP } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_INSTRUMENTATION } from '@ember/canary-features';
+import { subscribe, reset } from '@ember/instrumentation';
+import { moduleFor, ApplicationTestCase, runTask } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_INSTRUMENTATION) {
+  moduleFor(
+    'Router instrumentation',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.postModel = RSVP.defer();
+
+        let test = this;
+
+        this.router.map(function() {
+          this.route('about');
+          this.route('posts', function() {
+            this.route('post', { path: '/:post_id' });
+          });
+        });
+
+        this.add(
+          'route:posts.post',
+          Route.extend({
+            model() {
+              return test.postModel.promise;
+            },
+          })
+        );
+
+        this.addTemplate('about', 'About');
+        this.addTemplate('posts.post', 'Post');
+      }
+
+      teardown() {
+        reset();
+        super.teardown();
+      }
+
+      get routerOptions() {
+        return {
+          location: 'none',
+        };
+      }
+
+      subscribe() {
+        let events = [];
+
+        subscribe('route', {
+          before(name, timestamp) {
+            return timestamp;
+          },
+
+          after(name, timestamp, payload, startTime) {
+            events.push({ name, payload, duration: timestamp - startTime });
+          },
+        });
+
+        return events;
+      }
+
+      async ['@test the hooks of the routes and the render are published'](assert) {
+        let events = this.subscribe();
+
+        await this.visit('/about');
+
+        assert.deepEqual(
+          events.filter(event => event.payload.routeName === 'about').map(event => event.name),
+          [
+            'route.beforeModel',
+            'route.model',
+            'route.afterModel',
+            'route.setupController',
+            'route.render',
+          ]
+        );
+        assert.deepEqual(
+          events
+            .filter(event => event.payload.routeName === 'application')
+            .map(event => event.name),
+          ['route.beforeModel', 'route.model', 'route.afterModel', 'route.setupController']
+        );
+        assert.equal(events[0].payload.object, 'application');
+        assert.ok(events[0].payload.transition, 'the payload includes the transition');
+      }
+
+      async ['@test promises returned by the hooks are waited on'](assert) {
+        let events = this.subscribe();
+
+        await this.visit('/about');
+        events.length = 0;
+
+        let transition = runTask(() => this.appRouter.transitionTo('posts.post', '1'));
+        let modelEvents = () => events.filter(event => event.name === 'route.model');
+
+        assert.deepEqual(modelEvents().map(event => event.payload.routeName), ['posts']);
+
+        runTask(() => this.postModel.resolve({}));
+        await transition;
+
+        assert.deepEqual(modelEvents().map(event => event.payload.routeName), [
+          'posts',
+          'posts.post',
+        ]);
+      }
+
+      async ['@test the timings are summarised on the transition'](assert) {
+        await this.visit('/about');
+
+        runTask(() => this.postModel.resolve({}));
+
+        let transition = runTask(() => this.appRouter.transitionTo('posts.post', '1'));
+        await transition;
+
+        let names = transition.timings.map(timing => `${timing.name} ${timing.routeName}`);
+        assert.deepEqual(names.filter(name => name.indexOf('posts.post') !== -1), [
+          'route.beforeModel posts.post',
+          'route.model posts.post',
+          'route.afterModel posts.post',
+          'route.setupController posts.post',
+          'route.render posts.post',
+        ]);
+
+        let render = transition.timings[transition.timings.length - 1];
+        assert.equal(render.name, 'route.render');
+        assert.equal(render.routeName, 'posts.post');
+        assert.ok(render.duration >= 0);
+        assert.ok(render.startTime >= transition.timings[0].startTime);
+      }
+
+      async ['@test transitions that run no hooks have no timings of hooks'](assert) {
+        await this.visit('/about');
+
+        let transition = runTask(() => this.appRouter.transitionTo('about'));
+        await transition;
+
+        assert.deepEqual(transition.timings.filter(timing => timing.name !== 'route.render'), []);
+      }
+    }
+  );
+}
@@ -0,0 +1,111 @@
+import { Route } from '@ember/-internals/routing';
+import { RSVP } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_LAZY_ROUTES } from '@ember/canary-features';
+import { moduleFor, ApplicationTestCase, runTask } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_LAZY_ROUTES) {
+  moduleFor(
+    'Router.map - lazy routes',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        let testCase = this;
+        this.loaderCalls = 0;
+        this.deferred = RSVP.defer();
+
+        this.router.map(function() {
+          this.route('home', { path: '/' });
+          this.route(
+            'admin',
+            {
+              loader() {
+                testCase.loaderCalls++;
+                return testCase.deferred.promise;
+              },
+            },
+            function() {
+              this.route('users');
+            }
+          );
+        });
+
+        this.addTemplate('home', 'Home');
+        this.addTemplate('admin_loading', 'Loading admin');
+      }
+
+      get routerService() {
+        return this.applicationInstance.lookup('service:router');
+      }
+
+      loadAdmin() {
+        this.add(
+          'route:admin.users',
+          Route.extend({
+            model() {
+              return ['Tomster', 'Zoey'];
+            },
+          })
+        );
+        this.addTemplate('admin', 'Admin {{outlet}}');
+        this.addTemplate('admin.users', '{{#each this.model as |user|}}{{user}} {{/each}}');
+
+        runTask(() => this.deferred.resolve());
+      }
+
+      ['@test the loader runs before the lazy routes are entered'](assert) {
+        let transition;
+
+        return this.visit('/')
+          .then(() => {
+            assert.equal(this.loaderCalls, 0, 'the loader is not called up front');
+
+            transition = runTask(() => this.routerService.transitionTo('admin.users'));
+
+            assert.equal(this.loaderCalls, 1, 'the loader is called once for the whole bundle');
+            this.assertText('Loading admin', 'the loading substate is shown');
+
+            this.loadAdmin();
+
+            return transition;
+          })
+          .then(() => {
+            assert.equal(this.routerService.get('currentRouteName'), 'admin.users');
+            this.assertText('Admin Tomster Zoey ');
+
+            return this.visit('/');
+          })
+          .then(() => this.visit('/admin/users'))
+          .then(() => {
+            assert.equal(this.loaderCalls, 1, 'a loaded bundle is not loaded again');
+            this.assertText('Admin Tomster Zoey ');
+          });
+      }
+
+      ['@test a rejected loader fails the transition and is retried'](assert) {
+        return this.visit('/')
+          .then(() => {
+            let transition = this.routerService.transitionTo('admin.users');
+            runTask(() => this.deferred.reject(new Error('offline')));
+            return transition;
+          })
+          .then(
+            () => assert.ok(false, 'the transition should have failed'),
+            error => {
+              assert.equal(error.message, 'offline');
+              assert.equal(this.routerService.get('currentRouteName'), 'home');
+
+              this.deferred = RSVP.defer();
+              this.loadAdmin();
+
+              return this.routerService.transitionTo('admin.users');
+            }
+          )
+          .then(() => {
+            assert.equal(this.loaderCalls, 2);
+            assert.equal(this.routerService.get('currentRouteName'), 'admin.users');
+          });
+      }
+    }
+  );
+}
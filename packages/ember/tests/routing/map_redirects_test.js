@@ -0,0 +1,109 @@
+import { Route } from '@ember/-internals/routing';
+import { EMBER_ROUTING_MAP_REDIRECTS } from '@ember/canary-features';
+import { moduleFor, ApplicationTestCase } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_MAP_REDIRECTS) {
+  moduleFor(
+    'Router.map - redirects and paths',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.router.map(function() {
+          this.route('posts', { paths: ['/articles'] }, function() {
+            this.route('post', { path: '/:post_id' });
+          });
+          this.redirect('/p/:id', 'posts.post', { params: { id: 'post_id' } });
+        });
+
+        this.add(
+          'route:posts.post',
+          Route.extend({
+            queryParams: {
+              sort: {},
+            },
+
+            model(params) {
+              return { id: params.post_id };
+            },
+          })
+        );
+
+        this.addTemplate('posts.post', 'Post {{this.model.id}}');
+      }
+
+      get routerService() {
+        return this.applicationInstance.lookup('service:router');
+      }
+
+      async ['@test routes are entered at their additional paths'](assert) {
+        await this.visit('/articles/1');
+
+        this.assertText('Post 1');
+        assert.equal(this.appRouter.get('currentRouteName'), 'posts.post');
+        assert.equal(this.appRouter.get('currentURL'), '/articles/1', 'the URL is kept');
+        assert.equal(this.routerService.urlFor('posts.post', '1'), '/posts/1');
+      }
+
+      async ['@test redirects enter the route they redirect to'](assert) {
+        await this.visit('/p/2?sort=asc');
+
+        this.assertText('Post 2');
+        assert.equal(this.appRouter.get('currentRouteName'), 'posts.post');
+        assert.equal(this.appRouter.get('currentURL'), '/posts/2?sort=asc', 'the URL is replaced');
+      }
+
+      async ['@test transitioning to a redirect URL enters the route it redirects to'](assert) {
+        await this.visit('/');
+        await this.transitionTo('/p/3');
+
+        this.assertText('Post 3');
+        assert.equal(this.appRouter.get('currentURL'), '/posts/3');
+      }
+
+      async ['@test the router service and routes enter the route a redirect URL leads to'](
+        assert
+      ) {
+        await this.visit('/');
+        await this.routerService.transitionTo('/p/5');
+
+        this.assertText('Post 5');
+        assert.equal(this.appRouter.get('currentURL'), '/posts/5');
+
+        await this.routerService.replaceWith('/p/6?sort=desc');
+
+        this.assertText('Post 6');
+        assert.equal(this.appRouter.get('currentURL'), '/posts/6?sort=desc');
+
+        let route = this.applicationInstance.lookup('route:posts.post');
+        await route.transitionTo('/p/7');
+
+        this.assertText('Post 7');
+        assert.equal(this.appRouter.get('currentRouteName'), 'posts.post');
+        assert.equal(this.appRouter.get('currentURL'), '/posts/7');
+      }
+
+      async ['@test links and urlFor generate the path of the route, not of a redirect'](assert) {
+        this.addTemplate('index', '{{#link-to "posts.post" "8" id="post"}}Post{{/link-to}}');
+
+        await this.visit('/');
+
+        assert.equal(this.$('#post').attr('href'), '/posts/8');
+        assert.equal(this.routerService.urlFor('posts.post', '8'), '/posts/8');
+        assert.equal(this.appRouter.generate('posts.post', '8'), '/posts/8');
+      }
+
+      async ['@test RouterService#recognize reports the route a redirect leads to'](assert) {
+        await this.visit('/');
+
+        let routeInfo = this.routerService.recognize('/p/4');
+        assert.equal(routeInfo.name, 'posts.post');
+        assert.deepEqual(routeInfo.params, { post_id: '4' });
+
+        routeInfo = this.routerService.recognize('/articles/4');
+        assert.equal(routeInfo.name, 'posts.post');
+        assert.deepEqual(routeInfo.params, { post_id: '4' });
+      }
+    }
+  );
+}
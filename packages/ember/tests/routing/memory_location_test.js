@@ -0,0 +1,76 @@
+import { Route } from '@ember/-internals/routing';
+import { EMBER_ROUTING_MEMORY_LOCATION } from '@ember/canary-features';
+import { moduleFor, ApplicationTestCase, runLoopSettled, runTask } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_MEMORY_LOCATION) {
+  moduleFor(
+    'MemoryLocation - back button',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.router.map(function() {
+          this.route('home', { path: '/' });
+          this.route('posts', function() {
+            this.route('post', { path: '/:post_id' });
+          });
+        });
+
+        this.add(
+          'route:posts.post',
+          Route.extend({
+            model(params) {
+              return { id: params.post_id };
+            },
+          })
+        );
+
+        this.addTemplate('home', 'Home');
+        this.addTemplate('posts', 'Posts {{outlet}}');
+        this.addTemplate('posts.post', 'Post {{this.model.id}}');
+      }
+
+      get routerOptions() {
+        return {
+          location: 'memory',
+        };
+      }
+
+      get location() {
+        return this.appRouter.location;
+      }
+
+      async ['@test going back and forward transitions to the previous and next URL'](assert) {
+        await this.visit('/');
+        await this.transitionTo('posts');
+        await this.transitionTo('posts.post', '1');
+
+        assert.deepEqual(this.location.entries, ['/', '/posts', '/posts/1']);
+
+        runTask(() => this.location.back());
+        await runLoopSettled();
+
+        assert.equal(this.appRouter.get('currentURL'), '/posts');
+        this.assertText('Posts ');
+
+        runTask(() => this.location.go(-1));
+        await runLoopSettled();
+
+        assert.equal(this.appRouter.get('currentURL'), '/');
+        this.assertText('Home');
+
+        runTask(() => this.location.go(2));
+        await runLoopSettled();
+
+        assert.equal(this.appRouter.get('currentURL'), '/posts/1');
+        this.assertText('Posts Post 1');
+
+        assert.deepEqual(
+          this.location.entries,
+          ['/', '/posts', '/posts/1'],
+          'moving through the stack does not add entries'
+        );
+      }
+    }
+  );
+}
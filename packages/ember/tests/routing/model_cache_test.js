@@ -0,0 +1,185 @@
+import { Route } from '@ember/-internals/routing';
+import { RSVP } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_MODEL_CACHE } from '@ember/canary-features';
+import { moduleFor, ApplicationTestCase } from 'internal-test-helpers';
+
+let originalNow = Date.now;
+
+if (EMBER_ROUTING_MODEL_CACHE) {
+  moduleFor(
+    'Route#modelCache',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.loads = [];
+
+        this.router.map(function() {
+          this.route('about');
+          this.route('posts', function() {
+            this.route('post', { path: '/:post_id' });
+          });
+        });
+
+        this.addTemplate('posts.post', '{{this.model.id}} ({{this.model.load}})');
+      }
+
+      teardown() {
+        Date.now = originalNow;
+
+        super.teardown();
+      }
+
+      get routerService() {
+        return this.applicationInstance.lookup('service:router');
+      }
+
+      addPostRoute(properties = {}) {
+        let test = this;
+
+        this.add(
+          'route:posts.post',
+          Route.extend(
+            {
+              queryParams: {
+                sort: {},
+              },
+
+              model(params) {
+                test.loads.push(params.post_id);
+                return { id: params.post_id, load: test.loads.length };
+              },
+            },
+            properties
+          )
+        );
+      }
+
+      async ['@test routes call their model hook every time by default'](assert) {
+        this.addPostRoute();
+
+        await this.visit('/posts/1');
+        await this.visit('/about');
+        await this.visit('/posts/1');
+
+        this.assertText('1 (2)');
+        assert.deepEqual(this.loads, ['1', '1']);
+      }
+
+      async ["@test the 'session' policy reuses the model for the same params"](assert) {
+        this.addPostRoute({ modelCache: 'session' });
+
+        await this.visit('/posts/1');
+        await this.visit('/posts/2');
+        await this.visit('/posts/1');
+
+        this.assertText('1 (1)');
+
+        await this.visit('/about');
+        await this.visit('/posts/2');
+
+        this.assertText('2 (2)');
+        assert.deepEqual(this.loads, ['1', '2']);
+      }
+
+      async ['@test query params are part of the cached params'](assert) {
+        this.addPostRoute({ modelCache: 'session' });
+
+        await this.visit('/posts/1');
+        await this.visit('/posts/1?sort=asc');
+        await this.visit('/about');
+        await this.visit('/posts/1?sort=asc');
+
+        this.assertText('1 (2)');
+        assert.deepEqual(this.loads, ['1', '1']);
+      }
+
+      async ['@test the maxAge policy reuses the model until it is too old'](assert) {
+        let now = 1000;
+        Date.now = () => now;
+
+        this.addPostRoute({ modelCache: { maxAge: 500 } });
+
+        await this.visit('/posts/1');
+        await this.visit('/about');
+
+        now = 1499;
+        await this.visit('/posts/1');
+        this.assertText('1 (1)');
+
+        await this.visit('/about');
+
+        now = 1500;
+        await this.visit('/posts/1');
+        this.assertText('1 (2)');
+
+        assert.deepEqual(this.loads, ['1', '1']);
+      }
+
+      async ['@test models that fail to load are not cached'](assert) {
+        let test = this;
+
+        this.addTemplate('posts.post_error', 'Error');
+        this.addPostRoute({
+          modelCache: 'session',
+
+          model(params) {
+            test.loads.push(params.post_id);
+
+            if (test.loads.length === 1) {
+              return RSVP.reject(new Error('offline'));
+            }
+
+            return { id: params.post_id, load: test.loads.length };
+          },
+        });
+
+        await this.visit('/posts/1');
+        this.assertText('Error');
+
+        await this.visit('/about');
+        await this.visit('/posts/1');
+
+        this.assertText('1 (2)');
+        assert.deepEqual(this.loads, ['1', '1']);
+      }
+
+      async ['@test RouterService#invalidateModel discards the cached models'](assert) {
+        this.addPostRoute({ modelCache: 'session' });
+
+        await this.visit('/posts/1');
+        await this.visit('/posts/2');
+
+        this.routerService.invalidateModel('posts.post', { post_id: '1' });
+
+        await this.visit('/posts/2');
+        await this.visit('/posts/1');
+        this.assertText('1 (3)');
+
+        this.routerService.invalidateModel('posts.post');
+
+        await this.visit('/posts/2');
+        this.assertText('2 (4)');
+
+        assert.deepEqual(this.loads, ['1', '2', '1', '2']);
+      }
+
+      async ['@test refreshing a route loads its model again'](assert) {
+        this.addPostRoute({ modelCache: 'session' });
+
+        await this.visit('/posts/1');
+
+        let route = this.applicationInstance.lookup('route:posts.post');
+        await route.refresh();
+
+        this.assertText('1 (2)');
+
+        await this.visit('/about');
+        await this.visit('/posts/1');
+
+        this.assertText('1 (2)', 'the refreshed model is cached');
+        assert.deepEqual(this.loads, ['1', '1']);
+      }
+    }
+  );
+}
@@ -0,0 +1,155 @@
+import { Route } from '@ember/-internals/routing';
+import { EMBER_ROUTING_NAMED_ROUTERS } from '@ember/canary-features';
+import { moduleFor, ApplicationTestCase, runTask } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_NAMED_ROUTERS) {
+  moduleFor(
+    'Named routers',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.router.map(function() {
+          this.route('about');
+        });
+
+        this.router.mapRouter('panel', function() {
+          this.route('settings');
+          this.route('help', { path: '/help/:topic' });
+          this.route('legacy');
+        });
+
+        this.add(
+          'route:panel',
+          Route.extend({
+            actions: {
+              close() {
+                this.transitionTo('panel.index');
+              },
+            },
+          })
+        );
+
+        this.add(
+          'route:panel.help',
+          Route.extend({
+            model(params) {
+              return { topic: params.topic };
+            },
+          })
+        );
+
+        this.add(
+          'route:panel.legacy',
+          Route.extend({
+            redirect() {
+              this.transitionTo('panel.settings');
+            },
+          })
+        );
+
+        this.addTemplate(
+          'application',
+          '<main>{{outlet}}</main><aside>{{router-outlet "panel"}}</aside>'
+        );
+        this.addTemplate('index', 'Home');
+        this.addTemplate('about', 'About');
+        this.addTemplate('panel', 'Panel: {{outlet}}');
+        this.addTemplate('panel.index', 'Index');
+        this.addTemplate('panel.settings', '<button {{action "close"}}>Settings</button>');
+        this.addTemplate('panel.help', 'Help on {{this.model.topic}}');
+      }
+
+      get routerOptions() {
+        return {
+          location: 'none',
+        };
+      }
+
+      get panelRouter() {
+        return this.applicationInstance.lookup('router:panel');
+      }
+
+      assertPanel(text) {
+        this.assert.equal(this.$('aside').text(), text);
+      }
+
+      async ['@test the named router renders into its router-outlet'](assert) {
+        await this.visit('/');
+
+        assert.equal(this.$('main').text(), 'Home');
+        this.assertPanel('Panel: Index');
+        assert.equal(this.panelRouter.get('currentRouteName'), 'panel.index');
+        assert.equal(this.panelRouter.get('currentURL'), '/');
+      }
+
+      async ['@test transitions of the named router do not change the URL of the application'](
+        assert
+      ) {
+        await this.visit('/about');
+
+        await this.panelRouter.transitionTo('panel.help', 'routing');
+
+        this.assertPanel('Panel: Help on routing');
+        assert.equal(this.panelRouter.get('currentURL'), '/help/routing');
+        assert.equal(this.appRouter.get('currentURL'), '/about');
+        assert.equal(this.appRouter.get('location.path'), '/about');
+        assert.equal(this.$('main').text(), 'About');
+      }
+
+      async ['@test transitions of the application do not change the named router'](assert) {
+        await this.visit('/');
+        await this.panelRouter.transitionTo('panel.settings');
+        await this.visit('/about');
+
+        assert.equal(this.$('main').text(), 'About');
+        this.assertPanel('Panel: Settings');
+        assert.equal(this.panelRouter.get('currentRouteName'), 'panel.settings');
+      }
+
+      async ['@test the named router keeps its own history'](assert) {
+        await this.visit('/');
+        await this.panelRouter.transitionTo('panel.settings');
+        await this.panelRouter.transitionTo('panel.help', 'history');
+
+        let location = this.panelRouter.get('_router.location');
+        assert.deepEqual(location.get('entries'), ['/', '/settings', '/help/history']);
+
+        runTask(() => location.back());
+        await this.panelRouter.get('_router._routerMicrolib.activeTransition');
+
+        this.assertPanel('Panel: Settings');
+      }
+
+      async ['@test the routes of the named router transition within it'](assert) {
+        await this.visit('/');
+        await this.panelRouter.transitionTo('panel.legacy').followRedirects();
+
+        assert.equal(this.panelRouter.get('currentRouteName'), 'panel.settings');
+        assert.equal(this.appRouter.get('currentRouteName'), 'index');
+      }
+
+      async ['@test actions bubble through the routes of the named router'](assert) {
+        await this.visit('/');
+        await this.panelRouter.transitionTo('panel.settings');
+
+        await this.click('aside button');
+
+        this.assertPanel('Panel: Index');
+        assert.equal(this.appRouter.get('currentRouteName'), 'index');
+      }
+
+      async ['@test the named router and its location are destroyed with the router'](assert) {
+        await this.visit('/');
+
+        let router = this.panelRouter.get('_router');
+        let location = router.get('location');
+
+        runTask(() => this.appRouter.destroy());
+
+        assert.ok(router.isDestroyed, 'the named router is destroyed');
+        assert.ok(location.isDestroyed, 'the location is destroyed');
+      }
+    }
+  );
+}
@@ -0,0 +1,123 @@
+import { Route } from '@ember/-internals/routing';
+import {
+  EMBER_ROUTING_MAP_REDIRECTS,
+  EMBER_ROUTING_PARAM_CONSTRAINTS,
+} from '@ember/canary-features';
+import { moduleFor, ApplicationTestCase } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_PARAM_CONSTRAINTS) {
+  moduleFor(
+    'Router.map - param constraints',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.modelCalls = [];
+
+        let test = this;
+
+        this.router.map(function() {
+          this.route('posts', function() {
+            this.route('post', { path: '/:post_id(\\d+)' });
+            this.route('tag', { path: '/tags/:tag', constraints: { tag: tag => tag !== 'new' } });
+          });
+          this.route('file', { path: '/files/*path([a-z]+/[a-z]+\\.txt)' });
+
+          if (EMBER_ROUTING_MAP_REDIRECTS) {
+            this.redirect('/p/:id(\\d+)', 'posts.post', { params: { id: 'post_id' } });
+          }
+          this.route('page', { path: '/*slug' });
+        });
+
+        this.add(
+          'route:posts.post',
+          Route.extend({
+            model(params) {
+              test.modelCalls.push(params.post_id);
+              return { id: params.post_id };
+            },
+          })
+        );
+
+        this.addTemplate('posts.post', 'Post {{this.model.id}}');
+        this.addTemplate('posts.tag', 'Tag');
+        this.addTemplate('file', 'File');
+        this.addTemplate('page', 'Page');
+      }
+
+      get routerService() {
+        return this.applicationInstance.lookup('service:router');
+      }
+
+      async ['@test URLs whose params satisfy the constraints are recognized'](assert) {
+        await this.visit('/posts/12');
+
+        this.assertText('Post 12');
+        assert.equal(this.appRouter.get('currentRouteName'), 'posts.post');
+      }
+
+      async ['@test URLs whose params do not satisfy a regular expression fall through'](assert) {
+        await this.visit('/posts/twelve');
+
+        this.assertText('Page');
+        assert.equal(this.appRouter.get('currentRouteName'), 'page');
+        assert.deepEqual(this.modelCalls, [], 'the model hook was not called');
+      }
+
+      async ['@test URLs whose params do not satisfy a function fall through'](assert) {
+        await this.visit('/posts/tags/ember');
+        assert.equal(this.appRouter.get('currentRouteName'), 'posts.tag');
+
+        await this.visit('/posts/tags/new');
+        assert.equal(this.appRouter.get('currentRouteName'), 'page');
+      }
+
+      async ['@test constraints can contain slashes'](assert) {
+        await this.visit('/files/docs/readme.txt');
+        assert.equal(this.appRouter.get('currentRouteName'), 'file');
+
+        await this.visit('/files/readme.md');
+        assert.equal(this.appRouter.get('currentRouteName'), 'page');
+      }
+
+      async ['@test redirects only match the params that satisfy their constraints'](assert) {
+        if (!EMBER_ROUTING_MAP_REDIRECTS) {
+          assert.expect(0);
+          return;
+        }
+
+        await this.visit('/p/12');
+
+        this.assertText('Post 12');
+        assert.equal(this.appRouter.get('currentRouteName'), 'posts.post');
+        assert.equal(this.appRouter.get('currentURL'), '/posts/12');
+        assert.equal(this.routerService.recognize('/p/12').name, 'posts.post');
+
+        await this.visit('/p/twelve');
+
+        this.assertText('Page');
+        assert.equal(this.appRouter.get('currentRouteName'), 'page');
+        assert.deepEqual(this.modelCalls, ['12']);
+      }
+
+      async ['@test RouterService#recognize only recognizes params that satisfy the constraints'](
+        assert
+      ) {
+        await this.visit('/');
+
+        assert.equal(this.routerService.recognize('/posts/12').name, 'posts.post');
+        assert.equal(this.routerService.recognize('/posts/twelve').name, 'page');
+      }
+
+      async ['@test RouterService#urlFor asserts that the params satisfy the constraints'](assert) {
+        await this.visit('/');
+
+        assert.equal(this.routerService.urlFor('posts.post', 12), '/posts/12');
+
+        expectAssertion(() => {
+          this.routerService.urlFor('posts.post', 'twelve');
+        }, "The 'post_id' param of the 'posts.post' route must satisfy its constraint, but it is 'twelve'.");
+      }
+    }
+  );
+}
@@ -0,0 +1,156 @@
+import Controller from '@ember/controller';
+import { Object as EmberObject } from '@ember/-internals/runtime';
+import { Route } from '@ember/-internals/routing';
+import { EMBER_ROUTING_QUERY_PARAM_TRANSFORMS } from '@ember/canary-features';
+import { run } from '@ember/runloop';
+import { QueryParamTestCase, moduleFor } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_QUERY_PARAM_TRANSFORMS) {
+  moduleFor(
+    'Query Params - transforms',
+    class extends QueryParamTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.router.map(function() {
+          this.route('home', { path: '/' });
+          this.route('about');
+        });
+
+        this.add(
+          'transform:day',
+          EmberObject.extend({
+            serialize(date) {
+              return date.toISOString().slice(0, 10);
+            },
+            deserialize(serialized) {
+              return new Date(`${serialized}T00:00:00.000Z`);
+            },
+          })
+        );
+
+        this.add(
+          'transform:csv',
+          EmberObject.extend({
+            serialize(values) {
+              return values.join(',');
+            },
+            deserialize(serialized) {
+              return serialized.split(',');
+            },
+          })
+        );
+      }
+
+      ['@test a transform deserializes query params from the URL'](assert) {
+        this.add(
+          'controller:home',
+          Controller.extend({
+            queryParams: [{ since: { transform: 'day' } }],
+            since: null,
+          })
+        );
+
+        return this.visit('/?since=2019-07-01').then(() => {
+          let since = this.getController('home').get('since');
+
+          assert.ok(since instanceof Date, 'the value was deserialized');
+          assert.equal(since.toISOString(), '2019-07-01T00:00:00.000Z');
+        });
+      }
+
+      async ['@test a transform serializes changed query params into the URL']() {
+        this.add(
+          'controller:home',
+          Controller.extend({
+            queryParams: [{ since: { transform: 'day' } }],
+            since: null,
+          })
+        );
+
+        await this.visitAndAssert('/');
+
+        await this.setAndFlush(
+          this.getController('home'),
+          'since',
+          new Date('2019-07-02T00:00:00.000Z')
+        );
+        this.assertCurrentPath('/?since=2019-07-02');
+
+        await this.setAndFlush(this.getController('home'), 'since', null);
+        this.assertCurrentPath('/');
+      }
+
+      async ['@test default values are serialized with the transform'](assert) {
+        this.add(
+          'controller:home',
+          Controller.extend({
+            queryParams: [{ tags: { transform: 'csv' } }],
+            tags: ['ember'],
+          })
+        );
+
+        await this.visitAndAssert('/?tags=ember%2Cglimmer');
+        assert.deepEqual(this.getController('home').get('tags'), ['ember', 'glimmer']);
+
+        await this.setAndFlush(this.getController('home'), 'tags', ['ember']);
+        this.assertCurrentPath('/', 'the default value is not serialized into the URL');
+      }
+
+      async ['@test a transform is used for query params passed to transitionTo'](assert) {
+        this.add(
+          'controller:about',
+          Controller.extend({
+            queryParams: [{ tags: { transform: 'csv' } }],
+            tags: null,
+          })
+        );
+
+        await this.visitAndAssert('/');
+
+        await run(() =>
+          this.appRouter.transitionTo('about', { queryParams: { tags: ['a', 'b'] } })
+        );
+        this.assertCurrentPath('/about?tags=a%2Cb');
+        assert.deepEqual(this.getController('about').get('tags'), ['a', 'b']);
+      }
+
+      ['@test a transform can be configured on the route'](assert) {
+        this.add(
+          'route:home',
+          Route.extend({
+            queryParams: {
+              tags: { transform: 'csv' },
+            },
+          })
+        );
+        this.add(
+          'controller:home',
+          Controller.extend({
+            queryParams: ['tags'],
+            tags: null,
+          })
+        );
+
+        return this.visit('/?tags=a,b').then(() => {
+          assert.deepEqual(this.getController('home').get('tags'), ['a', 'b']);
+        });
+      }
+
+      ['@test a missing transform triggers an assertion'](assert) {
+        this.add(
+          'controller:home',
+          Controller.extend({
+            queryParams: [{ since: { transform: 'missing' } }],
+            since: null,
+          })
+        );
+
+        return assert.rejectsAssertion(
+          this.visit('/?since=2019-07-01'),
+          "The query param transform 'missing' could not be found. Make sure it is registered as 'transform:missing'."
+        );
+      }
+    }
+  );
+}
@@ -0,0 +1,264 @@
+import { Route } from '@ember/-internals/routing';
+import { Object as EmberObject, RSVP } from '@ember/-internals/runtime';
+import {
+  EMBER_ROUTING_TRANSITION_ABORT_REASONS,
+  EMBER_ROUTING_TRANSITION_GUARDS,
+} from '@ember/canary-features';
+import { RouterTestCase, moduleFor, runTask } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_TRANSITION_ABORT_REASONS) {
+  moduleFor(
+    'Router Service - abort reasons',
+    class extends RouterTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.aborted = [];
+      }
+
+      async visitAndListen(url) {
+        await this.visit(url);
+
+        this.routerService.on('routeDidAbort', transition => this.aborted.push(transition));
+      }
+
+      async assertAborted(transition, type) {
+        let assert = this.assert;
+
+        try {
+          await transition;
+          assert.ok(false, 'the transition should have been aborted');
+        } catch (error) {
+          assert.equal(error.name, 'TransitionAborted');
+          assert.ok(error.abortReason === transition.abortReason, 'the error has the reason');
+        }
+
+        assert.equal(transition.abortReason.type, type);
+        assert.equal(this.aborted.length, 1, 'routeDidAbort was fired once');
+        assert.ok(this.aborted[0] === transition, 'routeDidAbort was fired with the transition');
+      }
+
+      async ['@test a transition started while another one is underway supersedes it'](assert) {
+        let model = RSVP.defer();
+
+        this.add(
+          'route:parent.child',
+          Route.extend({
+            model() {
+              return model.promise;
+            },
+          })
+        );
+
+        await this.visitAndListen('/');
+
+        let first = runTask(() => this.routerService.transitionTo('parent.child'));
+        let second = runTask(() => this.routerService.transitionTo('parent.sister'));
+        await second;
+
+        runTask(() => model.resolve());
+
+        await this.assertAborted(first, 'superseded');
+        assert.ok(first.abortReason.transition === second, 'the reason has the new transition');
+      }
+
+      async ['@test a transition started by a route hook redirects the transition'](assert) {
+        let redirect;
+
+        this.add(
+          'route:parent.child',
+          Route.extend({
+            beforeModel() {
+              redirect = this.transitionTo('parent.sister');
+            },
+          })
+        );
+
+        await this.visitAndListen('/');
+
+        let transition = this.routerService.transitionTo('parent.child');
+
+        await this.assertAborted(transition, 'redirected');
+        assert.ok(transition.abortReason.transition === redirect, 'the reason has the redirect');
+      }
+
+      async ['@test a transition started by a route after its hook resolved redirects the transition'](
+        assert
+      ) {
+        let redirect;
+
+        this.add(
+          'route:parent.child',
+          Route.extend({
+            model() {
+              return RSVP.resolve().then(() => {
+                redirect = this.replaceWith('parent.sister');
+              });
+            },
+          })
+        );
+
+        await this.visitAndListen('/');
+
+        let transition = this.routerService.transitionTo('parent.child');
+
+        await this.assertAborted(transition, 'redirected');
+        assert.ok(transition.abortReason.transition === redirect, 'the reason has the redirect');
+      }
+
+      async ['@test a transition started by a route action supersedes the transition'](assert) {
+        let model = RSVP.defer();
+        let sister;
+
+        this.add(
+          'route:parent.child',
+          Route.extend({
+            model() {
+              return model.promise;
+            },
+          })
+        );
+        this.add(
+          'route:parent',
+          Route.extend({
+            actions: {
+              goToSister() {
+                sister = this.transitionTo('parent.sister');
+              },
+            },
+          })
+        );
+
+        await this.visitAndListen('/');
+
+        let transition = runTask(() => this.routerService.transitionTo('parent.child'));
+        runTask(() => this.applicationInstance.lookup('route:parent').send('goToSister'));
+        await sister;
+
+        runTask(() => model.resolve());
+
+        await this.assertAborted(transition, 'superseded');
+        assert.ok(
+          transition.abortReason.transition === sister,
+          'the reason has the new transition'
+        );
+      }
+
+      async ['@test an explicitly aborted transition'](assert) {
+        await this.visitAndListen('/');
+
+        let transition = this.routerService.transitionTo('parent.child');
+        transition.abort();
+
+        await this.assertAborted(transition, 'aborted');
+        assert.strictEqual(transition.abortReason.transition, undefined);
+      }
+
+      async ['@test a transition aborted from routeWillChange'](assert) {
+        await this.visitAndListen('/');
+
+        this.routerService.on('routeWillChange', transition => {
+          if (transition.to.name === 'parent.child') {
+            transition.abort();
+          }
+        });
+
+        let transition = this.routerService.transitionTo('parent.child');
+
+        await this.assertAborted(transition, 'aborted');
+        assert.strictEqual(transition.abortReason.transition, undefined);
+        assert.equal(this.routerService.get('currentRouteName'), 'parent.index');
+      }
+
+      async ['@test a transition that fails into an error substate'](assert) {
+        this.addTemplate('parent.child_error', 'Error');
+        this.add(
+          'route:parent.child',
+          Route.extend({
+            model() {
+              throw new Error('boom');
+            },
+          })
+        );
+
+        await this.visitAndListen('/');
+
+        let transition = this.routerService.transitionTo('parent.child');
+        await transition;
+
+        assert.equal(this.routerService.get('currentRouteName'), 'parent.child_error');
+        assert.equal(transition.abortReason.type, 'error');
+        assert.strictEqual(transition.abortReason.transition, undefined);
+        assert.equal(this.aborted.length, 1, 'routeDidAbort was fired once');
+        assert.ok(this.aborted[0] === transition, 'routeDidAbort was fired with the transition');
+      }
+
+      async ['@test transitions that complete have no abort reason'](assert) {
+        await this.visitAndListen('/');
+
+        let transition = this.routerService.transitionTo('parent.child');
+        await transition;
+
+        assert.strictEqual(transition.abortReason, undefined);
+        assert.equal(this.aborted.length, 0);
+      }
+    }
+  );
+}
+
+if (EMBER_ROUTING_TRANSITION_ABORT_REASONS && EMBER_ROUTING_TRANSITION_GUARDS) {
+  moduleFor(
+    'Router Service - abort reasons with guards',
+    class extends RouterTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.router.map(function() {
+          this.route('admin', { guards: ['admin'] });
+          this.route('login');
+        });
+      }
+
+      async ['@test a transition aborted by a guard'](assert) {
+        this.add(
+          'guard:admin',
+          EmberObject.extend({
+            check() {
+              return false;
+            },
+          })
+        );
+
+        await this.visit('/');
+
+        let transition = this.routerService.transitionTo('admin');
+        await transition.catch(() => {});
+
+        assert.equal(transition.abortReason.type, 'guard');
+        assert.strictEqual(transition.abortReason.transition, undefined);
+      }
+
+      async ['@test a transition redirected by a guard'](assert) {
+        this.add(
+          'guard:admin',
+          EmberObject.extend({
+            check() {
+              return { redirectTo: 'login' };
+            },
+          })
+        );
+
+        await this.visit('/');
+
+        let transition = this.routerService.transitionTo('admin');
+        await transition.catch(() => {});
+
+        assert.equal(transition.abortReason.type, 'guard');
+        assert.ok(
+          transition.abortReason.transition === transition.guardRejection.redirect,
+          'the reason has the redirect'
+        );
+      }
+    }
+  );
+}
@@ -0,0 +1,128 @@
+import Controller from '@ember/controller';
+import { Route } from '@ember/-internals/routing';
+import { DEBUG } from '@glimmer/env';
+import { RouterTestCase, moduleFor } from 'internal-test-helpers';
+
+moduleFor(
+  'Router Service - currentRoute',
+  class extends RouterTestCase {
+    constructor() {
+      super(...arguments);
+
+      ['dynamic', 'dynamicWithChild', 'dynamicWithChild.child'].forEach(name => {
+        this.add(
+          `route:${name}`,
+          Route.extend({
+            model(params) {
+              return params;
+            },
+          })
+        );
+      });
+    }
+
+    ['@test RouterService#currentRoute exposes the active route hierarchy'](assert) {
+      return this.visit('/dynamic-with-child/1/2').then(() => {
+        let currentRoute = this.routerService.get('currentRoute');
+
+        assert.equal(currentRoute.name, 'dynamicWithChild.child');
+        assert.equal(currentRoute.localName, 'child');
+        assert.deepEqual(currentRoute.params, { child_id: '2' });
+        assert.deepEqual(currentRoute.paramNames, ['child_id']);
+        assert.equal(currentRoute.child, null, 'the leaf has no child');
+
+        let parent = currentRoute.parent;
+        assert.equal(parent.name, 'dynamicWithChild');
+        assert.deepEqual(parent.params, { dynamic_id: '1' });
+        assert.equal(parent.child.name, currentRoute.name, 'child points back to the leaf');
+
+        let application = parent.parent;
+        assert.equal(application.name, 'application');
+        assert.equal(application.parent, null, 'the root has no parent');
+
+        let found = currentRoute.find(routeInfo => routeInfo.name === 'dynamicWithChild');
+        assert.equal(found.name, 'dynamicWithChild', 'find traverses the whole list');
+      });
+    }
+
+    ['@test RouterService#currentRoute changes on every transition'](assert) {
+      let previous;
+
+      return this.visit('/dynamic/1')
+        .then(() => {
+          previous = this.routerService.get('currentRoute');
+          assert.deepEqual(previous.params, { dynamic_id: '1' });
+
+          return this.routerService.transitionTo('dynamic', 2);
+        })
+        .then(() => {
+          let currentRoute = this.routerService.get('currentRoute');
+
+          assert.notEqual(currentRoute, previous);
+          assert.equal(currentRoute.parent.child.name, 'dynamic', 'the list is linked');
+          assert.equal(currentRoute.name, 'dynamic');
+          assert.deepEqual(currentRoute.params, { dynamic_id: '2' });
+        });
+    }
+
+    ['@test RouterService#currentRoute exposes query params'](assert) {
+      this.add(
+        'controller:parent.child',
+        Controller.extend({
+          queryParams: ['sort'],
+          sort: 'ASC',
+        })
+      );
+
+      return this.visit('/child?sort=DESC').then(() => {
+        let currentRoute = this.routerService.get('currentRoute');
+
+        assert.equal(currentRoute.name, 'parent.child');
+        assert.deepEqual(currentRoute.queryParams, { sort: 'DESC' });
+      });
+    }
+
+    ['@test RouterService#currentRoute exposes the metadata of every route'](assert) {
+      this.add(
+        'route:parent',
+        Route.extend({
+          buildRouteInfoMetadata() {
+            return { title: 'Parent' };
+          },
+        })
+      );
+
+      this.add(
+        'route:parent.child',
+        Route.extend({
+          buildRouteInfoMetadata() {
+            return { title: 'Child' };
+          },
+        })
+      );
+
+      return this.visit('/child').then(() => {
+        let currentRoute = this.routerService.get('currentRoute');
+
+        assert.deepEqual(currentRoute.metadata, { title: 'Child' });
+        assert.deepEqual(currentRoute.parent.metadata, { title: 'Parent' });
+        assert.equal(currentRoute.parent.parent.metadata, undefined);
+      });
+    }
+
+    ['@test RouterService#currentRoute is frozen in debug builds'](assert) {
+      return this.visit('/dynamic-with-child/1/2').then(() => {
+        let routeInfo = this.routerService.get('currentRoute');
+
+        if (DEBUG) {
+          while (routeInfo !== null) {
+            assert.ok(Object.isFrozen(routeInfo), `${routeInfo.name} is frozen`);
+            routeInfo = routeInfo.parent;
+          }
+        } else {
+          assert.expect(0);
+        }
+      });
+    }
+  }
+);
@@ -0,0 +1,144 @@
+import { Route } from '@ember/-internals/routing';
+import { EMBER_ROUTING_ENGINE_RELATIVE_NAMES } from '@ember/canary-features';
+import Engine from '@ember/engine';
+import { moduleFor, ApplicationTestCase } from 'internal-test-helpers';
+
+if (EMBER_ROUTING_ENGINE_RELATIVE_NAMES) {
+  moduleFor(
+    'Router Service - engine relative names',
+    class extends ApplicationTestCase {
+      constructor() {
+        super(...arguments);
+
+        this.add(
+          'engine:blog',
+          Engine.extend({
+            init() {
+              this._super(...arguments);
+              this.register(
+                'route:posts.post',
+                Route.extend({
+                  model(params) {
+                    return { id: params.post_id };
+                  },
+                })
+              );
+            },
+          })
+        );
+        this.add('route-map:blog', function() {
+          this.route('posts', function() {
+            this.route('post', { path: '/:post_id' });
+          });
+        });
+
+        this.router.map(function() {
+          this.route('about');
+          this.mount('blog');
+        });
+      }
+
+      get routerService() {
+        return this.applicationInstance.lookup('service:router');
+      }
+
+      get engineInstance() {
+        let engineInstances = this.appRouter._engineInstances.blog;
+        return engineInstances[Object.keys(engineInstances)[0]];
+      }
+
+      get engineRouterService() {
+        return this.engineInstance.lookup('service:engine-router');
+      }
+
+      async ['@test routable engines get an engine router service'](assert) {
+        await this.visit('/blog');
+
+        assert.notStrictEqual(this.engineRouterService, this.routerService);
+        assert.equal(this.engineRouterService.get('currentRouteName'), 'index');
+        assert.equal(this.engineRouterService.get('currentRoute.name'), 'index');
+        assert.equal(this.engineRouterService.get('currentRoute.parent.name'), 'application');
+        assert.equal(this.engineRouterService.get('currentURL'), '/blog');
+      }
+
+      async ['@test the names read from the engine router service can be passed back to it'](
+        assert
+      ) {
+        await this.visit('/blog/posts/1');
+
+        let router = this.engineRouterService;
+        assert.equal(router.get('currentRouteName'), 'posts.post');
+        assert.ok(router.isActive(router.get('currentRouteName')));
+        assert.equal(router.urlFor(router.get('currentRoute.parent.name')), '/blog/posts');
+
+        await this.visit('/about');
+        assert.equal(router.get('currentRouteName'), 'external:about');
+        assert.ok(router.isActive(router.get('currentRouteName')));
+      }
+
+      async ['@test the router service of engines keeps fully qualified names'](assert) {
+        await this.visit('/blog/posts/1');
+
+        let router = this.engineInstance.lookup('service:router');
+        assert.equal(router.get('currentRouteName'), 'blog.posts.post');
+        assert.ok(router.isActive('blog.posts.post', '1'));
+        assert.equal(router.urlFor('blog.posts.post', 2), '/blog/posts/2');
+        assert.equal(router.recognize('/blog/posts/3').name, 'blog.posts.post');
+
+        await router.transitionTo('blog.posts.post', '4');
+        assert.equal(this.appRouter.get('currentURL'), '/blog/posts/4');
+      }
+
+      async ['@test urlFor accepts names relative to the engine'](assert) {
+        await this.visit('/blog');
+
+        let router = this.engineRouterService;
+        assert.equal(router.urlFor('posts.post', 1), '/blog/posts/1');
+        assert.equal(router.urlFor('application'), '/blog');
+        assert.equal(router.urlFor('external:about'), '/about');
+      }
+
+      async ['@test isActive accepts names relative to the engine'](assert) {
+        await this.visit('/blog/posts/1');
+
+        let router = this.engineRouterService;
+        assert.ok(router.isActive('posts.post', '1'));
+        assert.ok(router.isActive('application'));
+        assert.notOk(router.isActive('external:about'));
+      }
+
+      async ['@test transitionTo and replaceWith accept names relative to the engine'](assert) {
+        await this.visit('/blog');
+
+        await this.engineRouterService.transitionTo('posts.post', '2');
+        assert.equal(this.appRouter.get('currentURL'), '/blog/posts/2');
+
+        await this.engineRouterService.replaceWith('external:about');
+        assert.equal(this.appRouter.get('currentRouteName'), 'about');
+      }
+
+      async ['@test recognize reports names relative to the engine'](assert) {
+        await this.visit('/blog');
+
+        let routeInfo = this.engineRouterService.recognize('/blog/posts/3');
+        assert.equal(routeInfo.name, 'posts.post');
+        assert.equal(routeInfo.localName, 'post');
+        assert.deepEqual(routeInfo.params, { post_id: '3' });
+        assert.equal(routeInfo.parent.name, 'posts');
+        assert.equal(routeInfo.parent.parent.name, 'application');
+        assert.equal(routeInfo.parent.parent.parent.name, 'external:application');
+        assert.ok(routeInfo.parent.child === routeInfo);
+
+        routeInfo = this.engineRouterService.recognize('/about');
+        assert.equal(routeInfo.name, 'external:about');
+      }
+
+      async ['@test the router service of the application keeps fully qualified names'](assert) {
+        await this.visit('/');
+
+        assert.equal(this.routerService.urlFor('blog.posts.post', 1), '/blog/posts/1');
+        assert.equal(this.routerService.recognize('/blog/posts/3').name, 'blog.posts.post');
+      }
+    }
+  );
+}
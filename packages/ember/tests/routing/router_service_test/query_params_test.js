@@ -0,0 +1,210 @@
+import Controller from '@ember/controller';
+import { computed } from '@ember/-internals/metal';
+import { NoneLocation, Route } from '@ember/-internals/routing';
+import { Object as EmberObject } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS } from '@ember/canary-features';
+import { inject as service } from '@ember/service';
+import { DEBUG } from '@glimmer/env';
+import { RouterTestCase, moduleFor } from 'internal-test-helpers';
+import { InternalTransition as Transition } from 'router_js';
+
+if (EMBER_ROUTING_ROUTER_SERVICE_QUERY_PARAMS) {
+  moduleFor(
+    'Router Service - queryParams',
+    class extends RouterTestCase {
+      constructor() {
+        super(...arguments);
+
+        let testCase = this;
+        testCase.state = [];
+
+        this.add(
+          'location:test',
+          NoneLocation.extend({
+            setURL(path) {
+              testCase.state.push(path);
+              this.set('path', path);
+            },
+
+            replaceURL(path) {
+              testCase.state.splice(testCase.state.length - 1, 1, path);
+              this.set('path', path);
+            },
+          })
+        );
+
+        this.add(
+          'route:parent.child',
+          Route.extend({
+            queryParams: {
+              page: { as: 'p' },
+              sort: { refreshModel: true },
+            },
+
+            model() {
+              testCase.modelCalls = (testCase.modelCalls || 0) + 1;
+            },
+          })
+        );
+
+        this.add(
+          'controller:parent.child',
+          Controller.extend({
+            queryParams: ['page', 'sort'],
+            page: 1,
+            sort: 'asc',
+          })
+        );
+      }
+
+      get routerOptions() {
+        return {
+          location: 'test',
+        };
+      }
+
+      ['@test RouterService#queryParams includes the declared params by their URL key'](assert) {
+        return this.visit('/child?p=3&utm=mail').then(() => {
+          assert.deepEqual(this.routerService.get('queryParams'), {
+            p: 3,
+            sort: 'asc',
+          });
+
+          if (DEBUG) {
+            assert.ok(Object.isFrozen(this.routerService.get('queryParams')), 'it is read-only');
+          }
+        });
+      }
+
+      ['@test RouterService#queryParams works for routes without a controller'](assert) {
+        this.add(
+          'route:parent.brother',
+          Route.extend({
+            queryParams: { filter: {} },
+          })
+        );
+
+        return this.visit('/brother?filter=new')
+          .then(() => {
+            assert.deepEqual(this.routerService.get('queryParams'), { filter: 'new' });
+
+            return this.routerService.setQueryParams({ filter: 'old' });
+          })
+          .then(() => {
+            assert.equal(this.routerService.get('currentURL'), '/brother?filter=old');
+            assert.deepEqual(this.routerService.get('queryParams'), { filter: 'old' });
+          });
+      }
+
+      ['@test RouterService#queryParams only includes the params of active routes'](assert) {
+        return this.visit('/sister').then(() => {
+          assert.deepEqual(this.routerService.get('queryParams'), {});
+        });
+      }
+
+      ['@test RouterService#queryParams is reactive'](assert) {
+        this.add(
+          'service:pagination',
+          EmberObject.extend({
+            router: service(),
+
+            page: computed('router.queryParams', function() {
+              return this.router.queryParams.p;
+            }),
+          })
+        );
+
+        let pagination;
+
+        return this.visit('/child')
+          .then(() => {
+            pagination = this.applicationInstance.lookup('service:pagination');
+            assert.equal(pagination.get('page'), 1);
+
+            return this.routerService.transitionTo('/child?p=2');
+          })
+          .then(() => {
+            assert.equal(pagination.get('page'), 2, 'updated by a transition');
+
+            return this.routerService.setQueryParams({ p: 4 });
+          })
+          .then(() => {
+            assert.equal(pagination.get('page'), 4, 'updated by setQueryParams');
+          });
+      }
+
+      ['@test RouterService#setQueryParams returns a Transition'](assert) {
+        return this.visit('/child').then(() => {
+          let transition = this.routerService.setQueryParams({ p: 2 });
+
+          assert.ok(transition instanceof Transition);
+
+          return transition;
+        });
+      }
+
+      ['@test RouterService#setQueryParams updates the URL and the controller'](assert) {
+        return this.visit('/child')
+          .then(() => {
+            return this.routerService.setQueryParams({ p: 2 });
+          })
+          .then(() => {
+            assert.equal(this.routerService.get('currentURL'), '/child?p=2');
+            assert.equal(this.routerService.get('currentRouteName'), 'parent.child');
+            assert.equal(this.applicationInstance.lookup('controller:parent.child').page, 2);
+
+            return this.routerService.setQueryParams({ sort: 'desc' });
+          })
+          .then(() => {
+            assert.equal(
+              this.routerService.get('currentURL'),
+              '/child?p=2&sort=desc',
+              'params that are not passed keep their value'
+            );
+
+            return this.routerService.setQueryParams({ p: 1, sort: undefined });
+          })
+          .then(() => {
+            assert.equal(
+              this.routerService.get('currentURL'),
+              '/child',
+              'default values are left out of the URL'
+            );
+            assert.deepEqual(this.state, [
+              '/child',
+              '/child?p=2',
+              '/child?p=2&sort=desc',
+              '/child',
+            ]);
+          });
+      }
+
+      ['@test RouterService#setQueryParams can replace the current history entry'](assert) {
+        return this.visit('/child')
+          .then(() => {
+            return this.routerService.setQueryParams({ p: 2 }, { replace: true });
+          })
+          .then(() => {
+            assert.deepEqual(this.state, ['/child?p=2']);
+          });
+      }
+
+      ['@test RouterService#setQueryParams respects refreshModel'](assert) {
+        return this.visit('/child')
+          .then(() => {
+            this.modelCalls = 0;
+
+            return this.routerService.setQueryParams({ p: 2 });
+          })
+          .then(() => {
+            assert.equal(this.modelCalls, 0, 'page does not refresh the model');
+
+            return this.routerService.setQueryParams({ sort: 'desc' });
+          })
+          .then(() => {
+            assert.equal(this.modelCalls, 1, 'sort refreshes the model');
+          });
+      }
+    }
+  );
+}
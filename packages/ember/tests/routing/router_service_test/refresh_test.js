@@ -0,0 +1,131 @@
+import { Route } from '@ember/-internals/routing';
+import { inject as service } from '@ember/service';
+import { EMBER_ROUTING_ROUTER_SERVICE_REFRESH } from '@ember/canary-features';
+import { RouterTestCase, moduleFor } from 'internal-test-helpers';
+import { InternalTransition as Transition } from 'router_js';
+
+if (EMBER_ROUTING_ROUTER_SERVICE_REFRESH) {
+  moduleFor(
+    'Router Service - refresh',
+    class extends RouterTestCase {
+      constructor() {
+        super(...arguments);
+
+        let modelCalls = (this.modelCalls = []);
+
+        ['application', 'dynamicWithChild', 'dynamicWithChild.child'].forEach(name => {
+          this.add(
+            `route:${name}`,
+            Route.extend({
+              model(params) {
+                modelCalls.push(name);
+                return params;
+              },
+            })
+          );
+        });
+      }
+
+      ['@test RouterService#refresh returns a Transition'](assert) {
+        assert.expect(1);
+
+        return this.visit('/').then(() => {
+          let transition = this.routerService.refresh();
+
+          assert.ok(transition instanceof Transition);
+
+          return transition;
+        });
+      }
+
+      ['@test RouterService#refresh without a route name refreshes every active route'](assert) {
+        return this.visit('/dynamic-with-child/1/2')
+          .then(() => {
+            assert.deepEqual(this.modelCalls, [
+              'application',
+              'dynamicWithChild',
+              'dynamicWithChild.child',
+            ]);
+            this.modelCalls.length = 0;
+
+            return this.routerService.refresh();
+          })
+          .then(() => {
+            assert.deepEqual(this.modelCalls, [
+              'application',
+              'dynamicWithChild',
+              'dynamicWithChild.child',
+            ]);
+            assert.equal(this.routerService.get('currentURL'), '/dynamic-with-child/1/2');
+          });
+      }
+
+      ['@test RouterService#refresh with a route name refreshes that route and its children'](
+        assert
+      ) {
+        return this.visit('/dynamic-with-child/1/2')
+          .then(() => {
+            this.modelCalls.length = 0;
+
+            return this.routerService.refresh('dynamicWithChild');
+          })
+          .then(() => {
+            assert.deepEqual(this.modelCalls, ['dynamicWithChild', 'dynamicWithChild.child']);
+            this.modelCalls.length = 0;
+
+            return this.routerService.refresh('dynamicWithChild.child');
+          })
+          .then(() => {
+            assert.deepEqual(this.modelCalls, ['dynamicWithChild.child']);
+          });
+      }
+
+      ['@test RouterService#refresh fires routeWillChange and routeDidChange'](assert) {
+        let events = [];
+
+        this.add(
+          'route:parent',
+          Route.extend({
+            router: service(),
+
+            init() {
+              this._super(...arguments);
+
+              this.router.on('routeWillChange', transition => {
+                events.push(['routeWillChange', transition.to.name]);
+              });
+              this.router.on('routeDidChange', transition => {
+                events.push(['routeDidChange', transition.to.name]);
+              });
+            },
+          })
+        );
+
+        return this.visit('/child')
+          .then(() => {
+            events.length = 0;
+
+            return this.routerService.refresh('parent');
+          })
+          .then(() => {
+            assert.deepEqual(events, [
+              ['routeWillChange', 'parent.child'],
+              ['routeDidChange', 'parent.child'],
+            ]);
+          });
+      }
+
+      ['@test RouterService#refresh asserts when the route is not active']() {
+        return this.visit('/').then(() => {
+          expectAssertion(() => {
+            this.routerService.refresh('dynamicWithChild');
+          }, "You attempted to refresh the route 'dynamicWithChild' but it is not currently active");
+
+          expectAssertion(() => {
+            this.routerService.refresh('missing');
+          }, "The route 'missing' was not found");
+        });
+      }
+    }
+  );
+}
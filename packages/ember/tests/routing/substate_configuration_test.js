@@ -0,0 +1,239 @@
+import { Route } from '@ember/-internals/routing';
+import { RSVP } from '@ember/-internals/runtime';
+import { EMBER_ROUTING_SUBSTATE_CONFIGURATION } from '@ember/canary-features';
+import { hasScheduledTimers } from '@ember/runloop';
+import { moduleFor, ApplicationTestCase, runLoopSettled, runTask } from 'internal-test-helpers';
+
+const DATE_NOW = Date.now;
+
+class SubstateConfigurationTestCase extends ApplicationTestCase {
+  constructor() {
+    super(...arguments);
+
+    this.postModel = RSVP.defer();
+    this.spinnerSetups = 0;
+
+    let test = this;
+
+    this.router.map(function() {
+      this.route('posts', function() {
+        this.route('post', { path: '/:post_id' });
+      });
+    });
+
+    this.add(
+      'route:posts.post',
+      Route.extend({
+        model() {
+          return test.postModel.promise;
+        },
+      })
+    );
+
+    this.add(
+      'route:spinner',
+      Route.extend({
+        setupController() {
+          test.spinnerSetups++;
+        },
+      })
+    );
+
+    this.addTemplate('posts.index', 'POSTS');
+    this.addTemplate('posts.post', 'POST');
+    this.addTemplate('spinner', 'LOADING');
+    this.addTemplate('oops', 'OOPS: {{this.model.message}}');
+  }
+
+  get routerOptions() {
+    return {
+      location: 'none',
+      defaultLoadingRoute: 'spinner',
+      defaultErrorRoute: 'oops',
+    };
+  }
+
+  teardown() {
+    Date.now = DATE_NOW;
+    super.teardown();
+  }
+
+  transitionToPost() {
+    return runTask(() => this.appRouter.transitionTo('posts.post', '1'));
+  }
+
+  /*
+    Stops the clock the router and the run loop read, so the timers of the
+    loading substates only fire once the test advances it.
+  */
+  stopClock() {
+    this.time = DATE_NOW();
+    Date.now = () => this.time;
+  }
+
+  advanceClock(duration) {
+    this.time += duration;
+  }
+}
+
+if (EMBER_ROUTING_SUBSTATE_CONFIGURATION) {
+  moduleFor(
+    'Router substate configuration - default substates',
+    class extends SubstateConfigurationTestCase {
+      async ['@test the default loading route is entered when there is no loading substate'](
+        assert
+      ) {
+        await this.visit('/posts');
+
+        let transition = this.transitionToPost();
+        this.assertText('LOADING');
+
+        runTask(() => this.postModel.resolve({}));
+        await transition;
+
+        this.assertText('POST');
+        assert.equal(this.spinnerSetups, 1);
+      }
+
+      async ['@test loading substates of the routes take precedence over the default one'](assert) {
+        this.addTemplate('posts.loading', 'POSTS LOADING');
+
+        await this.visit('/posts');
+
+        let transition = this.transitionToPost();
+        this.assertText('POSTS LOADING');
+
+        runTask(() => this.postModel.resolve({}));
+        await transition;
+
+        assert.equal(this.spinnerSetups, 0);
+      }
+
+      async ['@test the default error route is entered with the error when there is no error substate']() {
+        await this.visit('/posts');
+
+        let transition = this.transitionToPost();
+        runTask(() => this.postModel.reject(new Error('boom')));
+        await transition;
+
+        this.assertText('OOPS: boom');
+      }
+
+      async ['@test error substates of the routes take precedence over the default one']() {
+        this.addTemplate('posts.error', 'POSTS ERROR');
+
+        await this.visit('/posts');
+
+        let transition = this.transitionToPost();
+        runTask(() => this.postModel.reject(new Error('boom')));
+        await transition;
+
+        this.assertText('POSTS ERROR');
+      }
+    }
+  );
+
+  moduleFor(
+    'Router substate configuration - loading delay',
+    class extends SubstateConfigurationTestCase {
+      get routerOptions() {
+        return Object.assign(super.routerOptions, { loadingDelay: 20 });
+      }
+
+      async ['@test transitions that resolve before the delay do not enter the loading substate'](
+        assert
+      ) {
+        await this.visit('/posts');
+        this.stopClock();
+
+        let transition = this.transitionToPost();
+        this.assertText('POSTS');
+
+        runTask(() => this.postModel.resolve({}));
+        await transition;
+
+        this.advanceClock(20);
+        await runLoopSettled();
+
+        this.assertText('POST');
+        assert.equal(this.spinnerSetups, 0);
+      }
+
+      async ['@test the loading substate is entered after the delay'](assert) {
+        await this.visit('/posts');
+        this.stopClock();
+
+        let transition = this.transitionToPost();
+        this.assertText('POSTS');
+
+        this.advanceClock(20);
+        await runLoopSettled();
+        this.assertText('LOADING');
+
+        runTask(() => this.postModel.resolve({}));
+        await transition;
+
+        this.assertText('POST');
+        assert.equal(this.spinnerSetups, 1);
+      }
+    }
+  );
+
+  moduleFor(
+    'Router substate configuration - loading minimum duration',
+    class extends SubstateConfigurationTestCase {
+      get routerOptions() {
+        return Object.assign(super.routerOptions, { loadingMinimumDuration: 50 });
+      }
+
+      async ['@test the loading substate stays displayed for the minimum duration'](assert) {
+        await this.visit('/posts');
+        this.stopClock();
+
+        let transition = this.transitionToPost();
+        this.assertText('LOADING');
+
+        this.advanceClock(49);
+        runTask(() => this.postModel.resolve({}));
+        await transition;
+
+        assert.equal(this.appRouter.get('currentRouteName'), 'posts.post');
+        this.assertText('LOADING', 'the route is rendered after the minimum duration');
+
+        this.advanceClock(1);
+        await runLoopSettled();
+
+        this.assertText('POST');
+      }
+
+      async ['@test transitions that do not enter a loading substate are not delayed'](assert) {
+        await this.visit('/posts');
+        this.stopClock();
+
+        runTask(() => this.postModel.resolve({}));
+        await this.transitionToPost();
+
+        this.assertText('POST');
+        assert.equal(this.spinnerSetups, 0);
+        assert.notOk(hasScheduledTimers(), 'the transition was not delayed');
+      }
+
+      async ['@test the routes entered while waiting are rendered after the minimum duration']() {
+        await this.visit('/posts');
+        this.stopClock();
+
+        let transition = this.transitionToPost();
+        runTask(() => this.postModel.resolve({}));
+        await transition;
+        await runTask(() => this.appRouter.transitionTo('posts.index'));
+
+        this.assertText('LOADING');
+
+        this.advanceClock(50);
+        await runLoopSettled();
+
+        this.assertText('POSTS');
+      }
+    }
+  );
+}
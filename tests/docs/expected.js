@@ -3,6 +3,7 @@ module.exports = {
     '$',
     'A',
     'EXTEND_PROTOTYPES',
+    'ErrorBoundary',
     'GUID_KEY',
     'GUID_PREFIX',
     'LOG_STACKTRACE_ON_DEPRECATION',
@@ -14,12 +15,14 @@ module.exports = {
     '_RERENDER_LOOP_LIMIT',
     '_TEMPLATE_ONLY_GLIMMER_COMPONENTS',
     'Input',
+    'Island',
     'LinkTo',
     'Textarea',
     '__container__',
     '_activeQPChanged',
     '_applicationInstances',
     '_deserializeQueryParam',
+    '_deserializeQueryParamValue',
     '_deserializeQueryParams',
     '_fullyScopeQueryParams',
     '_getHashPath',
@@ -48,8 +51,10 @@ module.exports = {
     '_queryParamsFor',
     '_renderMode',
     '_resolveCache',
+    '_saveScrollPosition',
     '_scheduledDestroy',
     '_serializeQueryParam',
+    '_serializeQueryParamValue',
     '_serializeQueryParams',
     '_setRouteName',
     '_stashNames',
@@ -58,7 +63,9 @@ module.exports = {
     '_unwatchInstance',
     '_updatingQPChanged',
     '_watchInstance',
+    '_writeChunk',
     'abort',
+    'abortReason',
     'acceptsModelName',
     'action',
     'actions',
@@ -73,6 +80,7 @@ module.exports = {
     'addObserver',
     'advanceReadiness',
     'afterModel',
+    'afterTransition',
     'alias',
     'aliasMethod',
     'all',
@@ -96,6 +104,7 @@ module.exports = {
     'attributeLimit',
     'attributes',
     'autoboot',
+    'back',
     'beforeModel',
     'begin',
     'beginPropertyChanges',
@@ -106,10 +115,12 @@ module.exports = {
     'buildChildEngineInstance',
     'buildInstance',
     'buildRegistry',
+    'buildRouteInfoMetadata',
     'cache',
     'cacheFor',
     'camelize',
     'canCatalogEntriesByType',
+    'canExit',
     'canInvoke',
     'cancel',
     'cancelRouterSetup',
@@ -135,6 +146,7 @@ module.exports = {
     'computed',
     'concat',
     'concatenatedProperties',
+    'confirmBeforeUnload',
     'container',
     'containerDebugAdapter',
     'content',
@@ -157,7 +169,10 @@ module.exports = {
     'debug',
     'debugger',
     'decamelize',
+    'decodeHash',
     'decrementProperty',
+    'defaultErrorRoute',
+    'defaultLoadingRoute',
     'defer',
     'deferReadiness',
     'defineProperty',
@@ -191,11 +206,13 @@ module.exports = {
     'element',
     'elementId',
     'empty',
+    'encodeHash',
     'end',
     'endPropertyChanges',
     'engine',
     'ensureInitializers',
     'enter',
+    'entries',
     'equal',
     'error',
     'eventDispatcher',
@@ -224,6 +241,7 @@ module.exports = {
     'followRedirects',
     'forEach',
     'formatURL',
+    'forward',
     'from',
     'fullRouteName',
     'generateController',
@@ -254,6 +272,7 @@ module.exports = {
     'getViewRange',
     'getWithDefault',
     'global',
+    'go',
     'gt',
     'gte',
     'guidFor',
@@ -268,6 +287,7 @@ module.exports = {
     'hasRegistration',
     'hasRoute',
     'hash',
+    'hashPrefix',
     'hashSettled',
     'helper',
     'helperContainer',
@@ -277,6 +297,7 @@ module.exports = {
     'if',
     'includes',
     'incrementProperty',
+    'index',
     'indexOf',
     'info',
     'init',
@@ -293,6 +314,7 @@ module.exports = {
     'instrument',
     'intermediateTransitionTo',
     'intersect',
+    'invalidateModel',
     'invoke',
     'isActive',
     'isActiveIntent',
@@ -335,7 +357,9 @@ module.exports = {
     'link-to',
     'loading',
     'loadingClass',
+    'loadingDelay',
     'loadingHref',
+    'loadingMinimumDuration',
     'loc',
     'localName',
     'location',
@@ -348,6 +372,7 @@ module.exports = {
     'makeToString',
     'map',
     'mapBy',
+    'mapRouter',
     'match',
     'matches',
     'max',
@@ -360,6 +385,7 @@ module.exports = {
     'min',
     'mixin',
     'model',
+    'modelCache',
     'modelFor',
     'models',
     'mount',
@@ -408,6 +434,7 @@ module.exports = {
     'pauseTest',
     'popObject',
     'positionalParams',
+    'prefetch',
     'promise',
     'property',
     'pushObject',
@@ -457,6 +484,7 @@ module.exports = {
     'removeObserver',
     'removeTestHelpers',
     'render',
+    'renderPriority',
     'renderTemplate',
     'reopen',
     'reopenClass',
@@ -487,9 +515,11 @@ module.exports = {
     'rootElement',
     'rootURL',
     'route',
+    'routeDidAbort',
     'routeDidChange',
     'routeName',
     'routeWillChange',
+    'router-outlet',
     'run',
     'runInDebug',
     'runInitializers',
@@ -497,6 +527,8 @@ module.exports = {
     'runLoadHooks',
     'schedule',
     'scheduleOnce',
+    'scrollElement',
+    'scrollRestoration',
     'send',
     'sendAction',
     'sendEvent',
@@ -511,6 +543,7 @@ module.exports = {
     'setObjects',
     'setOwner',
     'setProperties',
+    'setQueryParams',
     'setURL',
     'setup',
     'setupController',
@@ -538,6 +571,7 @@ module.exports = {
     'textarea',
     'then',
     'throttle',
+    'timings',
     'title',
     'to',
     'toArray',
@@ -0,0 +1,186 @@
+var SimpleDOM = require('simple-dom');
+var setupAppTest = require('./helpers/setup-app');
+
+function stripSerializationMarkers(html) {
+  return html.replace(/<!--%[^%]*%-->/g, '');
+}
+
+function streamVisit(App, url, onChunk) {
+  var doc = new SimpleDOM.Document();
+  var chunks = [];
+
+  return App.visit(url, {
+    isBrowser: false,
+    document: doc,
+    rootElement: doc.body,
+    _renderMode: 'stream',
+    _writeChunk: function(chunk) {
+      chunks.push(stripSerializationMarkers(chunk));
+
+      if (onChunk) {
+        onChunk(chunks.length);
+      }
+    },
+  }).then(function(instance) {
+    instance.destroy();
+
+    return chunks;
+  });
+}
+
+function patchScript(id) {
+  return '<script>\\(function\\(d,id\\)\\{.+\\}\\)\\(document,' + id + '\\)</script>';
+}
+
+QUnit.module('Ember.Application - visit() streaming', function(hooks) {
+  hooks.beforeEach(function() {
+    global.EmberENV = {
+      _APPLICATION_TEMPLATE_WRAPPER: false,
+      FEATURES: { EMBER_GLIMMER_STREAMING: true },
+    };
+  });
+
+  setupAppTest(hooks);
+
+  hooks.afterEach(function() {
+    delete global.EmberENV;
+  });
+
+  QUnit.test('it writes the application in a single chunk when no model is pending', function(
+    assert
+  ) {
+    this.routes(function() {
+      this.route('a');
+    });
+
+    this.template('application', '<h1>Hello world</h1>{{outlet}}');
+    this.template('a', '<h2>Welcome to A</h2>');
+
+    return streamVisit(this.createApplication(), '/a').then(function(chunks) {
+      assert.deepEqual(chunks, ['<h1>Hello world</h1><h2>Welcome to A</h2>']);
+    });
+  });
+
+  QUnit.test('it writes the text of styles without escaping it', function(assert) {
+    this.template(
+      'application',
+      '<style>p > a { color: red; }</style><p title="a &quot;quote&quot;">1 &lt; 2<br></p>'
+    );
+
+    return streamVisit(this.createApplication(), '/').then(function(chunks) {
+      assert.deepEqual(chunks, [
+        '<style>p > a { color: red; }</style><p title="a &quot;quote&quot;">1 &lt; 2<br></p>',
+      ]);
+    });
+  });
+
+  QUnit.test('it streams placeholders for the routes waiting for their models', function(assert) {
+    var RSVP = this.Ember.RSVP;
+    var run = this.run;
+    var postsModel = RSVP.defer();
+
+    this.routes(function() {
+      this.route('posts');
+    });
+
+    this.route('posts', {
+      model: function() {
+        return postsModel.promise;
+      },
+    });
+
+    this.template('application', '<h1>Hello world</h1>{{outlet}}');
+    this.template('loading', '<p>Loading...</p>');
+    this.template('posts', '<h2>{{model.title}}</h2>');
+
+    var App = this.createApplication();
+
+    return streamVisit(App, '/posts', function(count) {
+      if (count === 1) {
+        run(postsModel, 'resolve', { title: 'Posts' });
+      }
+    }).then(function(chunks) {
+      assert.equal(chunks.length, 2);
+      assert.equal(
+        chunks[0],
+        '<h1>Hello world</h1><!--ember-stream:0--><p>Loading...</p><!--/ember-stream:0-->'
+      );
+      assert.ok(
+        chunks[1].match(
+          new RegExp(
+            '^<template id="ember-stream-0"><h2>Posts</h2></template>' + patchScript(0) + '$'
+          )
+        ),
+        chunks[1]
+      );
+    });
+  });
+
+  QUnit.test('it streams placeholders for the nested routes waiting for their models', function(
+    assert
+  ) {
+    var RSVP = this.Ember.RSVP;
+    var run = this.run;
+    var postsModel = RSVP.defer();
+    var postModel = RSVP.defer();
+
+    this.routes(function() {
+      this.route('posts', function() {
+        this.route('post', { path: '/:post_id' });
+      });
+    });
+
+    this.route('posts', {
+      model: function() {
+        return postsModel.promise;
+      },
+    });
+
+    this.route('posts.post', {
+      model: function() {
+        return postModel.promise;
+      },
+    });
+
+    this.template('application', '<h1>Hello world</h1>{{outlet}}');
+    this.template('loading', '<p>Loading posts...</p>');
+    this.template('posts', '<h2>Posts</h2>{{outlet}}');
+    this.template('posts.loading', '<p>Loading post...</p>');
+    this.template('posts.post', '<h3>{{model.title}}</h3>');
+
+    var App = this.createApplication();
+
+    return streamVisit(App, '/posts/1', function(count) {
+      if (count === 1) {
+        run(postsModel, 'resolve', {});
+      } else if (count === 2) {
+        run(postModel, 'resolve', { title: 'First post' });
+      }
+    }).then(function(chunks) {
+      assert.equal(chunks.length, 3);
+      assert.equal(
+        chunks[0],
+        '<h1>Hello world</h1><!--ember-stream:0--><p>Loading posts...</p><!--/ember-stream:0-->'
+      );
+      assert.ok(
+        chunks[1].match(
+          new RegExp(
+            '^<template id="ember-stream-0"><h2>Posts</h2>' +
+              '<!--ember-stream:1--><p>Loading post...</p><!--/ember-stream:1--></template>' +
+              patchScript(0) +
+              '$'
+          )
+        ),
+        chunks[1]
+      );
+      assert.ok(
+        chunks[2].match(
+          new RegExp(
+            '^<template id="ember-stream-1"><h3>First post</h3></template>' + patchScript(1) + '$'
+          )
+        ),
+        chunks[2]
+      );
+    });
+  });
+});